@@ -0,0 +1,145 @@
+import { ethers } from 'ethers'
+import React, { useEffect, useState } from 'react'
+
+import { MAX_TOKEN_SYMBOL_LENGTH } from '~config/tokens'
+import { blockchainService } from '~services/BlockchainService'
+import { tokenService } from '~services/TokenService'
+import type { TokenInfo } from '~types/blockchain'
+
+import { Button } from './Button'
+import { Input } from './Input'
+
+interface AddTokenProps {
+	account: string
+	onAdded: () => void
+	onCancel: () => void
+}
+
+export const AddToken: React.FC<AddTokenProps> = ({
+	account,
+	onAdded,
+	onCancel
+}) => {
+	const [contractAddress, setContractAddress] = useState('')
+	const [metadata, setMetadata] = useState<Pick<
+		TokenInfo,
+		'symbol' | 'name' | 'decimals'
+	> | null>(null)
+	const [symbol, setSymbol] = useState('')
+	const [isLoading, setIsLoading] = useState(false)
+	const [isAdding, setIsAdding] = useState(false)
+	const [error, setError] = useState('')
+
+	// 输入有效地址后从链上读取代币信息
+	useEffect(() => {
+		setMetadata(null)
+		setSymbol('')
+		setError('')
+		if (!ethers.isAddress(contractAddress)) {
+			return
+		}
+
+		let cancelled = false
+		setIsLoading(true)
+		tokenService
+			.getTokenMetadata(contractAddress)
+			.then((result) => {
+				if (!cancelled) {
+					setMetadata(result)
+					setSymbol(result.symbol.slice(0, MAX_TOKEN_SYMBOL_LENGTH))
+				}
+			})
+			.catch((err) => {
+				if (!cancelled) {
+					setError((err as Error).message)
+				}
+			})
+			.finally(() => {
+				if (!cancelled) {
+					setIsLoading(false)
+				}
+			})
+
+		return () => {
+			cancelled = true
+		}
+	}, [contractAddress])
+
+	const addressError =
+		contractAddress && !ethers.isAddress(contractAddress)
+			? '无效的合约地址'
+			: undefined
+	const symbolError =
+		metadata && (!symbol || symbol.length > MAX_TOKEN_SYMBOL_LENGTH)
+			? `代币符号为 1-${MAX_TOKEN_SYMBOL_LENGTH} 个字符`
+			: undefined
+
+	const handleAdd = async () => {
+		if (!metadata) {
+			return
+		}
+
+		setIsAdding(true)
+		setError('')
+		try {
+			await tokenService.addToken(account, {
+				chainId: blockchainService.getCurrentNetwork().chainId,
+				address: contractAddress,
+				symbol,
+				name: metadata.name,
+				decimals: metadata.decimals
+			})
+			onAdded()
+		} catch (err) {
+			setError((err as Error).message)
+		} finally {
+			setIsAdding(false)
+		}
+	}
+
+	return (
+		<div className="bg-gray-50 rounded-lg p-3 space-y-3">
+			<Input
+				label="代币合约地址"
+				placeholder="0x..."
+				value={contractAddress}
+				onChange={(value) => setContractAddress(value.trim())}
+				error={addressError || error}
+			/>
+			{isLoading && (
+				<div className="text-xs text-gray-500">正在读取代币信息...</div>
+			)}
+			{metadata && (
+				<>
+					<Input
+						label="代币符号"
+						value={symbol}
+						onChange={setSymbol}
+						error={symbolError}
+					/>
+					<div className="text-xs text-gray-600 space-y-1">
+						{metadata.name && <div>名称：{metadata.name}</div>}
+						<div>精度：{metadata.decimals}</div>
+					</div>
+				</>
+			)}
+			<div className="flex space-x-2">
+				<Button
+					variant="secondary"
+					size="sm"
+					className="flex-1"
+					onClick={onCancel}>
+					取消
+				</Button>
+				<Button
+					size="sm"
+					className="flex-1"
+					onClick={handleAdd}
+					loading={isAdding}
+					disabled={!metadata || !!symbolError || isAdding}>
+					添加代币
+				</Button>
+			</div>
+		</div>
+	)
+}
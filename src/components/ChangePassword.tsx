@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react'
+
+import { CryptoService } from '~services/CryptoService'
+import { SecurityService } from '~services/SecurityService'
+import { sendBackgroundMessage } from '~utils/messaging'
+
+import { Button } from './Button'
+import { Input } from './Input'
+import { PasswordStrengthIndicator } from './PasswordStrengthIndicator'
+
+interface ChangePasswordProps {
+	onBack: () => void
+}
+
+export const ChangePassword: React.FC<ChangePasswordProps> = ({ onBack }) => {
+	const [oldPassword, setOldPassword] = useState('')
+	const [newPassword, setNewPassword] = useState('')
+	const [confirmPassword, setConfirmPassword] = useState('')
+	const [passwordStrength, setPasswordStrength] = useState<ReturnType<
+		typeof CryptoService.validatePasswordStrength
+	> | null>(null)
+	const [isSaving, setIsSaving] = useState(false)
+	const [error, setError] = useState('')
+	const [success, setSuccess] = useState(false)
+
+	// 清理敏感数据
+	const clearSensitiveData = () => {
+		SecurityService.clearPassword(oldPassword)
+		SecurityService.clearPassword(newPassword)
+		SecurityService.clearPassword(confirmPassword)
+
+		setOldPassword('')
+		setNewPassword('')
+		setConfirmPassword('')
+		setPasswordStrength(null)
+	}
+
+	// 组件卸载时清理敏感数据
+	useEffect(() => {
+		return () => {
+			clearSensitiveData()
+		}
+	}, [])
+
+	const handleNewPasswordChange = (value: string) => {
+		setNewPassword(value)
+		setPasswordStrength(
+			value ? CryptoService.validatePasswordStrength(value) : null
+		)
+	}
+
+	const handleSubmit = async () => {
+		if (!passwordStrength?.isValid) {
+			setError(passwordStrength?.message || '新密码不符合要求')
+			return
+		}
+		if (newPassword !== confirmPassword) {
+			setError('两次输入的新密码不一致')
+			return
+		}
+
+		setIsSaving(true)
+		setError('')
+		try {
+			// 由后台验证旧密码并重新加密保险库
+			await sendBackgroundMessage('CHANGE_PASSWORD', {
+				oldPassword,
+				newPassword
+			})
+			clearSensitiveData()
+			setSuccess(true)
+		} catch (err) {
+			setError((err as Error).message)
+			setOldPassword('')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<div className="border-t border-gray-200 pt-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-gray-900">修改密码</h3>
+				<Button size="sm" variant="ghost" onClick={onBack}>
+					返回
+				</Button>
+			</div>
+
+			{success ? (
+				<div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+					✅ 密码已修改，下次解锁请使用新密码
+				</div>
+			) : (
+				<>
+					<Input
+						type="password"
+						label="当前密码"
+						value={oldPassword}
+						onChange={setOldPassword}
+						showPasswordToggle
+					/>
+					<Input
+						type="password"
+						label="新密码"
+						value={newPassword}
+						onChange={handleNewPasswordChange}
+						showPasswordToggle
+					/>
+					<PasswordStrengthIndicator
+						strength={passwordStrength}
+						password={newPassword}
+					/>
+					<Input
+						type="password"
+						label="确认新密码"
+						value={confirmPassword}
+						onChange={setConfirmPassword}
+						error={
+							confirmPassword && newPassword !== confirmPassword
+								? '两次输入的新密码不一致'
+								: undefined
+						}
+						showPasswordToggle
+					/>
+
+					{error && (
+						<div className="text-xs text-red-600">{error}</div>
+					)}
+
+					<Button
+						fullWidth
+						onClick={handleSubmit}
+						loading={isSaving}
+						disabled={
+							!oldPassword ||
+							!passwordStrength?.isValid ||
+							newPassword !== confirmPassword ||
+							isSaving
+						}>
+						修改密码
+					</Button>
+				</>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react'
+
+import { AccountService } from '~services/AccountService'
+import { PermissionService } from '~services/PermissionService'
+import type { DappPermission } from '~types/provider'
+
+import { Button } from './Button'
+
+interface ConnectedSitesProps {
+	currentAddress: string
+	onBack: () => void
+}
+
+interface SiteItemProps {
+	permission: DappPermission
+	walletAddresses: string[]
+	onDisconnect: (origin: string) => void
+	onUpdateAccounts: (origin: string, accounts: string[]) => void
+}
+
+const formatTime = (timestamp?: number) =>
+	timestamp ? new Date(timestamp).toLocaleString() : '—'
+
+function SiteItem({
+	permission,
+	walletAddresses,
+	onDisconnect,
+	onUpdateAccounts
+}: SiteItemProps) {
+	const [editing, setEditing] = useState(false)
+	const [selected, setSelected] = useState<string[]>(permission.accounts)
+
+	useEffect(() => {
+		setSelected(permission.accounts)
+	}, [permission.accounts])
+
+	const toggleAccount = (address: string) => {
+		setSelected((prev) =>
+			prev.includes(address)
+				? prev.filter((item) => item !== address)
+				: [...prev, address]
+		)
+	}
+
+	return (
+		<div className="bg-white border border-gray-200 rounded-lg p-3 space-y-2">
+			<div className="flex items-center space-x-2">
+				{permission.favicon ? (
+					<img src={permission.favicon} className="w-6 h-6 rounded" />
+				) : (
+					<div className="w-6 h-6 bg-gray-100 rounded flex items-center justify-center text-xs">
+						🌐
+					</div>
+				)}
+				<div className="flex-1 min-w-0">
+					<div className="text-sm font-medium text-gray-900 truncate">
+						{new URL(permission.origin).host}
+					</div>
+					<div className="text-xs text-gray-500">
+						连接于 {formatTime(permission.grantedAt)}
+					</div>
+					<div className="text-xs text-gray-500">
+						最近活跃 {formatTime(permission.lastActiveAt)}
+					</div>
+				</div>
+			</div>
+
+			{/* 可见账户 */}
+			{editing ? (
+				<div className="space-y-1">
+					{walletAddresses.map((address) => (
+						<label
+							key={address}
+							className="flex items-center space-x-2 text-xs font-mono">
+							<input
+								type="checkbox"
+								checked={selected.includes(address)}
+								onChange={() => toggleAccount(address)}
+							/>
+							<span>{AccountService.formatAddress(address)}</span>
+						</label>
+					))}
+				</div>
+			) : (
+				<div className="space-y-1">
+					{permission.accounts.map((address) => (
+						<div
+							key={address}
+							className="text-xs text-gray-600 font-mono">
+							{AccountService.formatAddress(address)}
+						</div>
+					))}
+				</div>
+			)}
+
+			<div className="flex space-x-2">
+				{editing ? (
+					<>
+						<Button
+							size="sm"
+							className="flex-1"
+							disabled={selected.length === 0}
+							onClick={() => {
+								onUpdateAccounts(permission.origin, selected)
+								setEditing(false)
+							}}>
+							保存
+						</Button>
+						<Button
+							size="sm"
+							variant="secondary"
+							className="flex-1"
+							onClick={() => {
+								setSelected(permission.accounts)
+								setEditing(false)
+							}}>
+							取消
+						</Button>
+					</>
+				) : (
+					<>
+						<Button
+							size="sm"
+							variant="secondary"
+							className="flex-1"
+							onClick={() => setEditing(true)}>
+							切换账户
+						</Button>
+						<Button
+							size="sm"
+							variant="danger"
+							className="flex-1"
+							onClick={() => onDisconnect(permission.origin)}>
+							断开连接
+						</Button>
+					</>
+				)}
+			</div>
+		</div>
+	)
+}
+
+export const ConnectedSites: React.FC<ConnectedSitesProps> = ({
+	currentAddress,
+	onBack
+}) => {
+	const [permissions, setPermissions] = useState<DappPermission[]>([])
+	const [walletAddresses, setWalletAddresses] = useState<string[]>([])
+	const [error, setError] = useState('')
+
+	useEffect(() => {
+		loadSites()
+	}, [])
+
+	const loadSites = async () => {
+		const all = await PermissionService.getAllPermissions()
+		setPermissions(
+			Object.values(all).sort(
+				(a, b) => (b.lastActiveAt || 0) - (a.lastActiveAt || 0)
+			)
+		)
+
+		// 可分配的账户：当前账户和已创建的账户
+		await AccountService.initialize()
+		const addresses = [
+			currentAddress,
+			...AccountService.getAccounts().map((account) => account.address)
+		]
+		setWalletAddresses(Array.from(new Set(addresses)))
+	}
+
+	// 交给后台处理，后台只通知受影响站点的页面
+	const sendSiteMessage = async (type: string, data: any) => {
+		setError('')
+		const response = await chrome.runtime.sendMessage({ type, data })
+		if (!response?.success) {
+			setError(response?.error || '操作失败')
+		}
+		await loadSites()
+	}
+
+	return (
+		<div className="border-t border-gray-200 pt-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-gray-900">
+					已连接的网站
+				</h3>
+				<Button size="sm" variant="ghost" onClick={onBack}>
+					返回
+				</Button>
+			</div>
+
+			{error && <div className="text-xs text-red-600">{error}</div>}
+
+			{permissions.length === 0 ? (
+				<div className="text-sm text-gray-500 text-center py-4">
+					暂无已连接的网站
+				</div>
+			) : (
+				permissions.map((permission) => (
+					<SiteItem
+						key={permission.origin}
+						permission={permission}
+						walletAddresses={walletAddresses}
+						onDisconnect={(origin) =>
+							sendSiteMessage('REVOKE_SITE_PERMISSION', {
+								origin
+							})
+						}
+						onUpdateAccounts={(origin, accounts) =>
+							sendSiteMessage('UPDATE_SITE_ACCOUNTS', {
+								origin,
+								accounts
+							})
+						}
+					/>
+				))
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react'
+
+import { SecurityService } from '~services/SecurityService'
+import { sendBackgroundMessage } from '~utils/messaging'
+import { downloadTextFile } from '~utils/utils'
+
+import { Button } from './Button'
+import { Input } from './Input'
+
+// keystore 密码最短长度
+const MIN_KEYSTORE_PASSWORD_LENGTH = 8
+
+interface ExportKeystoreProps {
+	address: string
+	onBack: () => void
+}
+
+export const ExportKeystore: React.FC<ExportKeystoreProps> = ({
+	address,
+	onBack
+}) => {
+	const [password, setPassword] = useState('')
+	const [keystorePassword, setKeystorePassword] = useState('')
+	const [confirmPassword, setConfirmPassword] = useState('')
+	const [isExporting, setIsExporting] = useState(false)
+	const [error, setError] = useState('')
+	const [exported, setExported] = useState(false)
+
+	// 清理敏感数据
+	const clearSensitiveData = () => {
+		SecurityService.clearPassword(password)
+		SecurityService.clearPassword(keystorePassword)
+		SecurityService.clearPassword(confirmPassword)
+
+		setPassword('')
+		setKeystorePassword('')
+		setConfirmPassword('')
+	}
+
+	// 组件卸载时清理敏感数据
+	useEffect(() => {
+		return () => {
+			clearSensitiveData()
+		}
+	}, [])
+
+	const keystorePasswordError =
+		keystorePassword &&
+		keystorePassword.length < MIN_KEYSTORE_PASSWORD_LENGTH
+			? `至少 ${MIN_KEYSTORE_PASSWORD_LENGTH} 个字符`
+			: undefined
+	const confirmError =
+		confirmPassword && keystorePassword !== confirmPassword
+			? '两次输入的密码不一致'
+			: undefined
+
+	const handleExport = async () => {
+		setIsExporting(true)
+		setError('')
+		try {
+			// 私钥只在后台加密，页面只拿到 keystore JSON
+			const keystore = await sendBackgroundMessage<string>(
+				'EXPORT_KEYSTORE',
+				{ password, address, keystorePassword }
+			)
+
+			// 与 Geth 的文件命名一致：UTC--<时间>--<地址>
+			const timestamp = new Date().toISOString().replace(/:/g, '-')
+			downloadTextFile(
+				`UTC--${timestamp}--${address.slice(2).toLowerCase()}.json`,
+				keystore
+			)
+			clearSensitiveData()
+			setExported(true)
+		} catch (err) {
+			setError((err as Error).message)
+			setPassword('')
+		} finally {
+			setIsExporting(false)
+		}
+	}
+
+	return (
+		<div className="border-t border-gray-200 pt-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-gray-900">
+					导出 Keystore
+				</h3>
+				<Button size="sm" variant="ghost" onClick={onBack}>
+					返回
+				</Button>
+			</div>
+			<div className="text-xs text-gray-500 break-all">
+				账户：{address}
+			</div>
+
+			{exported ? (
+				<div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+					✅ Keystore 文件已下载，可导入 Geth、Foundry 或其他钱包
+				</div>
+			) : (
+				<>
+					<p className="text-xs text-gray-500">
+						导出为 Web3 Secret Storage v3
+						格式，文件使用单独设置的密码加密
+					</p>
+					<Input
+						type="password"
+						label="钱包密码"
+						value={password}
+						onChange={setPassword}
+						showPasswordToggle
+					/>
+					<Input
+						type="password"
+						label="Keystore 密码"
+						value={keystorePassword}
+						onChange={setKeystorePassword}
+						error={keystorePasswordError}
+						showPasswordToggle
+					/>
+					<Input
+						type="password"
+						label="确认 Keystore 密码"
+						value={confirmPassword}
+						onChange={setConfirmPassword}
+						error={confirmError}
+						showPasswordToggle
+					/>
+
+					{error && (
+						<div className="text-xs text-red-600">{error}</div>
+					)}
+
+					<Button
+						fullWidth
+						onClick={handleExport}
+						loading={isExporting}
+						disabled={
+							!password ||
+							!keystorePassword ||
+							!!keystorePasswordError ||
+							keystorePassword !== confirmPassword ||
+							isExporting
+						}>
+						💾 导出
+					</Button>
+				</>
+			)}
+		</div>
+	)
+}
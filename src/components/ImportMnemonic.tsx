@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+
+import { CryptoService } from '~services/CryptoService'
+import { SecurityService } from '~services/SecurityService'
+
+import { Button } from './Button'
+import { ErrorMessage } from './ErrorAlert'
+
+// 输入联想最多显示的单词数
+const MAX_SUGGESTIONS = 4
+
+export interface ImportMnemonicResult {
+	mnemonic: string
+	passphrase: string
+	// 是否扫描并添加已使用过的账户
+	scanAccounts: boolean
+}
+
+interface ImportMnemonicProps {
+	onImportSuccess: (result: ImportMnemonicResult) => void
+	onBack?: () => void
+}
+
+export function ImportMnemonic({
+	onImportSuccess,
+	onBack
+}: ImportMnemonicProps) {
+	const [wordCount, setWordCount] = useState(12)
+	const [words, setWords] = useState<string[]>(Array(12).fill(''))
+	const [activeIndex, setActiveIndex] = useState<number | null>(null)
+	const [usePassphrase, setUsePassphrase] = useState(false)
+	const [passphrase, setPassphrase] = useState('')
+	const [scanAccounts, setScanAccounts] = useState(true)
+	const [showWords, setShowWords] = useState(false)
+	const [error, setError] = useState('')
+	const inputRefs = useRef<(HTMLInputElement | null)[]>([])
+
+	const wordlist = useMemo(() => CryptoService.getMnemonicWordlist(), [])
+	const wordSet = useMemo(() => new Set(wordlist), [wordlist])
+
+	const activeWord = activeIndex !== null ? words[activeIndex] : ''
+	const suggestions =
+		activeWord && !wordSet.has(activeWord)
+			? wordlist
+					.filter((word) => word.startsWith(activeWord))
+					.slice(0, MAX_SUGGESTIONS)
+			: []
+
+	const isComplete = words.every((word) => word)
+	const hasUnknownWord = words.some((word) => word && !wordSet.has(word))
+
+	// 清理敏感数据
+	const clearSensitiveData = () => {
+		SecurityService.clearMnemonic(words.join(' '))
+		SecurityService.clearPassword(passphrase)
+
+		setWords(Array(wordCount).fill(''))
+		setPassphrase('')
+	}
+
+	// 组件卸载时清理敏感数据
+	useEffect(() => {
+		return () => {
+			clearSensitiveData()
+		}
+	}, [])
+
+	const handleWordCountChange = (count: number) => {
+		setWordCount(count)
+		setWords((current) =>
+			Array.from({ length: count }, (_, index) => current[index] || '')
+		)
+		setError('')
+	}
+
+	const handleWordChange = (index: number, value: string) => {
+		const parts = value.trim().toLowerCase().split(/\s+/).filter(Boolean)
+		setError('')
+
+		// 粘贴完整助记词时自动拆分到各个输入框
+		if (parts.length > 1) {
+			const count = CryptoService.MNEMONIC_WORD_COUNTS.includes(
+				parts.length
+			)
+				? parts.length
+				: wordCount
+			setWordCount(count)
+			setWords(
+				Array.from({ length: count }, (_, i) =>
+					i >= index && i - index < parts.length
+						? parts[i - index]
+						: words[i] || ''
+				)
+			)
+			setActiveIndex(null)
+			return
+		}
+
+		const next = [...words]
+		next[index] = parts[0] || ''
+		setWords(next)
+	}
+
+	const selectSuggestion = (word: string) => {
+		if (activeIndex === null) {
+			return
+		}
+		const next = [...words]
+		next[activeIndex] = word
+		setWords(next)
+
+		// 自动跳到下一个单词
+		const nextIndex = activeIndex + 1
+		if (nextIndex < wordCount) {
+			inputRefs.current[nextIndex]?.focus()
+		} else {
+			setActiveIndex(null)
+		}
+	}
+
+	const handleKeyDown = (
+		event: React.KeyboardEvent<HTMLInputElement>,
+		index: number
+	) => {
+		// Tab/回车时接受唯一的联想结果
+		if (
+			(event.key === 'Enter' || event.key === 'Tab') &&
+			index === activeIndex &&
+			suggestions.length === 1
+		) {
+			event.preventDefault()
+			selectSuggestion(suggestions[0])
+		}
+	}
+
+	const handleImport = () => {
+		if (!isComplete) {
+			setError(`请输入全部 ${wordCount} 个单词`)
+			return
+		}
+		if (hasUnknownWord) {
+			setError('存在不在 BIP-39 单词表中的单词，请检查标红的输入')
+			return
+		}
+
+		const mnemonic = CryptoService.wordsToMnemonic(words)
+		if (!CryptoService.validateMnemonic(mnemonic)) {
+			setError('助记词校验失败，请检查单词顺序是否正确')
+			return
+		}
+
+		onImportSuccess({
+			mnemonic,
+			passphrase: usePassphrase ? passphrase : '',
+			scanAccounts
+		})
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="text-center">
+				<div className="text-4xl mb-3">🔑</div>
+				<h2 className="text-2xl font-bold text-gray-800">恢复钱包</h2>
+				<p className="text-gray-600 mt-2">
+					输入您的助记词来恢复现有钱包
+				</p>
+			</div>
+
+			{/* 单词数量 */}
+			<div className="flex items-center justify-between">
+				<label className="text-sm font-medium text-gray-700">
+					助记词长度
+				</label>
+				<select
+					value={wordCount}
+					onChange={(e) =>
+						handleWordCountChange(Number(e.target.value))
+					}
+					className="text-sm border border-gray-300 rounded-lg px-2 py-1">
+					{CryptoService.MNEMONIC_WORD_COUNTS.map((count) => (
+						<option key={count} value={count}>
+							{count} 个单词
+						</option>
+					))}
+				</select>
+			</div>
+
+			{/* 助记词输入 */}
+			<div className="space-y-2">
+				<div className="grid grid-cols-3 gap-2">
+					{words.map((word, index) => (
+						<div key={index} className="relative">
+							<span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">
+								{index + 1}
+							</span>
+							<input
+								ref={(element) => {
+									inputRefs.current[index] = element
+								}}
+								type={showWords ? 'text' : 'password'}
+								value={word}
+								autoComplete="off"
+								spellCheck={false}
+								onFocus={() => setActiveIndex(index)}
+								onChange={(e) =>
+									handleWordChange(index, e.target.value)
+								}
+								onKeyDown={(e) => handleKeyDown(e, index)}
+								className={`w-full pl-6 pr-2 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${word && !wordSet.has(word) && index !== activeIndex ? 'border-red-400' : 'border-gray-300'}`}
+							/>
+						</div>
+					))}
+				</div>
+
+				{/* 单词联想 */}
+				{suggestions.length > 0 && (
+					<div className="flex flex-wrap gap-2">
+						{suggestions.map((word) => (
+							<button
+								key={word}
+								type="button"
+								onMouseDown={(e) => {
+									// 避免输入框先失去焦点
+									e.preventDefault()
+									selectSuggestion(word)
+								}}
+								className="px-3 py-1 text-sm bg-blue-50 text-blue-700 rounded-full hover:bg-blue-100">
+								{word}
+							</button>
+						))}
+					</div>
+				)}
+
+				<button
+					type="button"
+					onClick={() => setShowWords(!showWords)}
+					className="text-sm text-gray-500 hover:text-gray-700">
+					{showWords ? '🙈 隐藏单词' : '👁️ 显示单词'}
+				</button>
+			</div>
+
+			{/* 高级选项 */}
+			<div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+				<label className="flex items-center space-x-2 text-sm text-gray-700">
+					<input
+						type="checkbox"
+						checked={usePassphrase}
+						onChange={(e) => setUsePassphrase(e.target.checked)}
+					/>
+					<span>使用 BIP-39 密码短语</span>
+				</label>
+				{usePassphrase && (
+					<div className="space-y-1">
+						<input
+							type="password"
+							value={passphrase}
+							onChange={(e) => setPassphrase(e.target.value)}
+							placeholder="密码短语（区分大小写）"
+							className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+						/>
+						<p className="text-xs text-gray-500">
+							密码短语不同会得到完全不同的账户，请确认与原钱包一致
+						</p>
+					</div>
+				)}
+				<label className="flex items-center space-x-2 text-sm text-gray-700">
+					<input
+						type="checkbox"
+						checked={scanAccounts}
+						onChange={(e) => setScanAccounts(e.target.checked)}
+					/>
+					<span>扫描并添加已使用过的账户</span>
+				</label>
+			</div>
+
+			{error && (
+				<ErrorMessage error={error} onDismiss={() => setError('')} />
+			)}
+
+			{/* 操作按钮 */}
+			<div className="space-y-3">
+				<Button
+					onClick={handleImport}
+					disabled={!isComplete}
+					className="w-full text-lg py-4">
+					🔑 恢复钱包
+				</Button>
+
+				{onBack && (
+					<Button
+						onClick={onBack}
+						variant="secondary"
+						className="w-full">
+						← 返回
+					</Button>
+				)}
+			</div>
+		</div>
+	)
+}
@@ -23,6 +23,13 @@ export function ImportPrivateKey({
 	const [isValidating, setIsValidating] = useState(false)
 	const [error, setError] = useState('')
 	const [showPrivateKey, setShowPrivateKey] = useState(false)
+	// 支持原始私钥和 Web3 Secret Storage v3 keystore 文件两种导入方式
+	const [importMode, setImportMode] = useState<'privateKey' | 'keystore'>(
+		'privateKey'
+	)
+	const [keystoreJson, setKeystoreJson] = useState('')
+	const [keystoreFileName, setKeystoreFileName] = useState('')
+	const [keystorePassword, setKeystorePassword] = useState('')
 
 	const handlePrivateKeyChange = async (value: string) => {
 		setPrivateKey(value)
@@ -138,6 +145,58 @@ export function ImportPrivateKey({
 		}
 	}
 
+	const handleKeystoreFileChange = async (
+		event: React.ChangeEvent<HTMLInputElement>
+	) => {
+		const file = event.target.files?.[0]
+		setError('')
+		setPrivateKey('')
+		setDerivedAddress('')
+		if (!file) {
+			return
+		}
+
+		const json = await file.text()
+		if (!CryptoService.isKeystoreJson(json)) {
+			setError(
+				'不是有效的 keystore 文件（需要 Web3 Secret Storage v3 格式）'
+			)
+			setKeystoreJson('')
+			setKeystoreFileName('')
+			return
+		}
+		setKeystoreJson(json)
+		setKeystoreFileName(file.name)
+	}
+
+	const handleDecryptKeystore = async () => {
+		setIsValidating(true)
+		setError('')
+		try {
+			// scrypt 参数较大时解密需要几秒钟
+			const account = await CryptoService.decryptKeystore(
+				keystoreJson,
+				keystorePassword
+			)
+			setPrivateKey(account.privateKey)
+			setDerivedAddress(account.address)
+		} catch (error) {
+			setError(error.message)
+		} finally {
+			SecurityService.clearPassword(keystorePassword)
+			setKeystorePassword('')
+			setIsValidating(false)
+		}
+	}
+
+	const handleModeChange = (mode: 'privateKey' | 'keystore') => {
+		handleClear()
+		setKeystoreJson('')
+		setKeystoreFileName('')
+		setKeystorePassword('')
+		setImportMode(mode)
+	}
+
 	const handleClear = () => {
 		setPrivateKey('')
 		setDerivedAddress('')
@@ -148,6 +207,7 @@ export function ImportPrivateKey({
 	const clearSensitiveData = () => {
 		// 安全清理私钥
 		SecurityService.clearPrivateKey(privateKey)
+		SecurityService.clearPassword(keystorePassword)
 
 		setPrivateKey('')
 		setDerivedAddress('')
@@ -168,7 +228,9 @@ export function ImportPrivateKey({
 			<div className="text-center">
 				<div className="text-4xl mb-3">📥</div>
 				<h2 className="text-2xl font-bold text-gray-800">导入私钥</h2>
-				<p className="text-gray-600 mt-2">输入您的私钥来导入现有账户</p>
+				<p className="text-gray-600 mt-2">
+					输入私钥或选择 keystore 文件来导入现有账户
+				</p>
 			</div>
 
 			{/* 安全警告 */}
@@ -187,53 +249,112 @@ export function ImportPrivateKey({
 				</div>
 			</div>
 
+			{/* 导入方式 */}
+			<div className="flex space-x-2">
+				<Button
+					onClick={() => handleModeChange('privateKey')}
+					variant={
+						importMode === 'privateKey' ? 'primary' : 'secondary'
+					}
+					className="flex-1 text-sm py-2">
+					私钥
+				</Button>
+				<Button
+					onClick={() => handleModeChange('keystore')}
+					variant={
+						importMode === 'keystore' ? 'primary' : 'secondary'
+					}
+					className="flex-1 text-sm py-2">
+					Keystore 文件
+				</Button>
+			</div>
+
 			{/* 私钥输入 */}
 			<div className="space-y-4">
-				<div>
-					<label className="block text-sm font-medium text-gray-700 mb-2">
-						私钥
-					</label>
-					<div className="space-y-2">
-						<div className="relative">
-							<textarea
-								value={privateKey}
-								onChange={(e) =>
-									handlePrivateKeyChange(e.target.value)
-								}
-								placeholder="输入您的私钥 (64个十六进制字符，可选择性包含0x前缀)"
-								className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none h-24 font-mono text-sm"
-								style={{
-									filter: showPrivateKey
-										? 'none'
-										: 'blur(4px)'
-								}}
-							/>
-							<button
-								type="button"
-								onClick={() =>
-									setShowPrivateKey(!showPrivateKey)
-								}
-								className="absolute top-2 right-2 text-gray-500 hover:text-gray-700 text-sm">
-								{showPrivateKey ? '🙈 隐藏' : '👁️ 显示'}
-							</button>
-						</div>
+				{importMode === 'privateKey' ? (
+					<div>
+						<label className="block text-sm font-medium text-gray-700 mb-2">
+							私钥
+						</label>
+						<div className="space-y-2">
+							<div className="relative">
+								<textarea
+									value={privateKey}
+									onChange={(e) =>
+										handlePrivateKeyChange(e.target.value)
+									}
+									placeholder="输入您的私钥 (64个十六进制字符，可选择性包含0x前缀)"
+									className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none h-24 font-mono text-sm"
+									style={{
+										filter: showPrivateKey
+											? 'none'
+											: 'blur(4px)'
+									}}
+								/>
+								<button
+									type="button"
+									onClick={() =>
+										setShowPrivateKey(!showPrivateKey)
+									}
+									className="absolute top-2 right-2 text-gray-500 hover:text-gray-700 text-sm">
+									{showPrivateKey ? '🙈 隐藏' : '👁️ 显示'}
+								</button>
+							</div>
 
-						<div className="flex space-x-2">
-							<Button
-								onClick={handlePaste}
-								variant="secondary"
-								className="flex-1 text-sm py-2">
-								📋 粘贴
-							</Button>
-							<Button
-								onClick={handleClear}
-								variant="secondary"
-								className="flex-1 text-sm py-2">
-								🗑️ 清空
-							</Button>
+							<div className="flex space-x-2">
+								<Button
+									onClick={handlePaste}
+									variant="secondary"
+									className="flex-1 text-sm py-2">
+									📋 粘贴
+								</Button>
+								<Button
+									onClick={handleClear}
+									variant="secondary"
+									className="flex-1 text-sm py-2">
+									🗑️ 清空
+								</Button>
+							</div>
 						</div>
 					</div>
-				</div>
+				) : (
+					<div className="space-y-3">
+						<label className="block text-sm font-medium text-gray-700">
+							Keystore 文件
+						</label>
+						<input
+							type="file"
+							accept=".json,application/json"
+							onChange={handleKeystoreFileChange}
+							className="w-full text-sm text-gray-600"
+						/>
+						{keystoreFileName && (
+							<div className="text-xs text-gray-500 break-all">
+								已选择：{keystoreFileName}
+							</div>
+						)}
+						<input
+							type="password"
+							value={keystorePassword}
+							onChange={(e) =>
+								setKeystorePassword(e.target.value)
+							}
+							placeholder="Keystore 文件密码"
+							className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+						/>
+						<Button
+							onClick={handleDecryptKeystore}
+							variant="secondary"
+							disabled={
+								!keystoreJson ||
+								!keystorePassword ||
+								isValidating
+							}
+							className="w-full text-sm py-2">
+							🔓 解密 Keystore
+						</Button>
+					</div>
+				)}
 
 				{/* 验证状态 */}
 				{isValidating && (
@@ -279,17 +400,19 @@ export function ImportPrivateKey({
 			</div>
 
 			{/* 格式说明 */}
-			<div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-				<div className="text-gray-700 text-sm space-y-2">
-					<div className="font-medium">私钥格式说明:</div>
-					<div className="text-xs space-y-1">
-						<div>• 64个十六进制字符 (0-9, a-f)</div>
-						<div>• 可以包含或不包含 "0x" 前缀</div>
-						<div>• 示例: 0x1234...abcd 或 1234...abcd</div>
-						<div>• 不要包含空格或其他字符</div>
+			{importMode === 'privateKey' && (
+				<div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+					<div className="text-gray-700 text-sm space-y-2">
+						<div className="font-medium">私钥格式说明:</div>
+						<div className="text-xs space-y-1">
+							<div>• 64个十六进制字符 (0-9, a-f)</div>
+							<div>• 可以包含或不包含 "0x" 前缀</div>
+							<div>• 示例: 0x1234...abcd 或 1234...abcd</div>
+							<div>• 不要包含空格或其他字符</div>
+						</div>
 					</div>
 				</div>
-			</div>
+			)}
 
 			{/* 操作按钮 */}
 			<div className="space-y-3">
@@ -2,15 +2,16 @@ import React, { useEffect, useState } from 'react'
 
 import { SEPOLIA_CONFIG } from '~config/networks'
 import { AccountService } from '~services/AccountService'
-import { StorageService } from '~services/StorageService'
-import { CryptoService } from '~services/CryptoService'
 import { blockchainService } from '~services/BlockchainService'
+import { CryptoService } from '~services/CryptoService'
 import { NetworkService } from '~services/NetworkService'
 import { transactionMonitorService } from '~services/TransactionMonitorService'
-import type { WalletAccount } from '~types/wallet'
+import type { WalletAccount, WalletSessionState } from '~types/wallet'
+import { sendBackgroundMessage } from '~utils/messaging'
 
 import { Button } from './Button'
 import { SendETH } from './SendETH'
+import { TokenList } from './TokenList'
 import { TransactionHistory } from './TransactionHistory'
 
 
@@ -18,14 +19,14 @@ interface MainWalletProps {
 	currentNetwork: string
 	currentAccount: {
 		address: string
-		privateKey: string
-		mnemonic?: string
 	}
+	onSwitchAccount: (address: string) => void
 }
 
 export function MainWallet({
 	currentNetwork,
-	currentAccount
+	currentAccount,
+	onSwitchAccount
 }: MainWalletProps) {
 	const [copySuccess, setCopySuccess] = useState<string>('')
 	const [balance, setBalance] = useState<string>('')
@@ -51,14 +52,34 @@ export function MainWallet({
 	const [pendingTransactionCount, setPendingTransactionCount] =
 		useState<number>(0)
 
-	// 创建账户列表（目前只有一个账户）
-  const [accounts, setAccounts] = useState<WalletAccount[]>([])
-  const [selectedAccount, setSelectedAccount] = useState<WalletAccount | null>({
+	// 账户列表
+	const [accounts, setAccounts] = useState<WalletAccount[]>([])
+	const [showHiddenAccounts, setShowHiddenAccounts] = useState<boolean>(false)
+	const [editingAddress, setEditingAddress] = useState<string>('')
+	const [editingName, setEditingName] = useState<string>('')
+	const [accountError, setAccountError] = useState<string>('')
+	// 观察账户：输入地址或 ENS 名称
+	const [watchInput, setWatchInput] = useState<string>('')
+	const [isAddingWatch, setIsAddingWatch] = useState<boolean>(false)
+
+	// 当前账户，账户列表尚未加载时使用默认信息
+	const selectedAccount: WalletAccount = accounts.find(
+		(account) =>
+			account.address.toLowerCase() ===
+			currentAccount.address.toLowerCase()
+	) || {
+		type: 'keyring',
 		address: currentAccount.address,
 		name: '账户 1',
 		index: 0,
 		createdAt: new Date()
-	})
+	}
+	const visibleAccounts = accounts.filter(
+		(account) =>
+			showHiddenAccounts ||
+			!account.hidden ||
+			account.address === selectedAccount.address
+	)
 
 	const handleCopyAddress = async (address: string) => {
 		const success = await AccountService.copyAddressToClipboard(address)
@@ -74,18 +95,16 @@ export function MainWallet({
 		return AccountService.formatAddress(address)
 	}
 
-  const initAccounts = async () => {
-    const storedAccounts = await StorageService.getItem<WalletAccount[]>(this.ACCOUNTS_STORAGE_KEY)
-    if (storedAccounts) {
-      setAccounts(storedAccounts)
-    }
-  }
+	const initAccounts = async () => {
+		await AccountService.initialize()
+		setAccounts([...AccountService.getAccounts()])
+	}
 
 	// 加载余额和网络信息
 	useEffect(() => {
 		loadAccountData()
 		initializeTransactionMonitoring()
-    initAccounts()
+		initAccounts()
 	}, [currentAccount.address, currentNetwork])
 
 	// 初始化交易监控
@@ -224,14 +243,101 @@ export function MainWallet({
 		updatePendingTransactionCount()
 	}
 
-  const addNewAccount = async () => {
-    const mnemonic = AccountService.getMnemonic()
-    const accountIndex = AccountService.getAccountIndex()
-    const privateKey = CryptoService.derivePrivateKeyFromMnemonic(mnemonic, '', accountIndex + 1)
-    const address = CryptoService.privateKeyToAddress(privateKey)
-    const newAccount = await AccountService.createAccountFromData(address, privateKey)
-    setAccounts([...accounts, newAccount])
-  }
+	// 由后台从助记词派生下一个账户并切换过去
+	const addNewAccount = async () => {
+		setAccountError('')
+		try {
+			const newAccount =
+				await sendBackgroundMessage<WalletAccount>('ADD_HD_ACCOUNT')
+			await initAccounts()
+			onSwitchAccount(newAccount.address)
+		} catch (error) {
+			setAccountError((error as Error).message)
+		}
+	}
+
+	// 添加只读的观察账户，支持 ENS 名称
+	const handleAddWatchAccount = async () => {
+		const input = watchInput.trim()
+		setAccountError('')
+		setIsAddingWatch(true)
+		try {
+			let address = input
+			let ensName: string | undefined
+			if (!CryptoService.validateAddress(input)) {
+				address = await NetworkService.resolveName(input)
+				if (!address) {
+					throw new Error('地址无效或 ENS 名称未注册')
+				}
+				ensName = input
+			}
+
+			const account = await sendBackgroundMessage<WalletAccount>(
+				'ADD_WATCH_ACCOUNT',
+				{ address, ensName }
+			)
+			setWatchInput('')
+			await initAccounts()
+			onSwitchAccount(account.address)
+		} catch (error) {
+			setAccountError((error as Error).message)
+		} finally {
+			setIsAddingWatch(false)
+		}
+	}
+
+	const handleRemoveWatchAccount = async (account: WalletAccount) => {
+		setAccountError('')
+		try {
+			const state = await sendBackgroundMessage<WalletSessionState>(
+				'REMOVE_WATCH_ACCOUNT',
+				{ address: account.address }
+			)
+			await initAccounts()
+			if (
+				state.selectedAddress &&
+				account.address === selectedAccount.address
+			) {
+				onSwitchAccount(state.selectedAddress)
+			}
+		} catch (error) {
+			setAccountError((error as Error).message)
+		}
+	}
+
+	const handleSelectAccount = (address: string) => {
+		if (editingAddress) {
+			return
+		}
+		if (address !== currentAccount.address) {
+			onSwitchAccount(address)
+		}
+		setShowAccounts(false)
+	}
+
+	const handleRenameAccount = async () => {
+		setAccountError('')
+		try {
+			await AccountService.renameAccount(editingAddress, editingName)
+			setAccounts([...AccountService.getAccounts()])
+			setEditingAddress('')
+		} catch (error) {
+			setAccountError((error as Error).message)
+		}
+	}
+
+	const handleToggleHidden = async (account: WalletAccount) => {
+		setAccountError('')
+		try {
+			await AccountService.setAccountHidden(
+				account.address,
+				!account.hidden
+			)
+			setAccounts([...AccountService.getAccounts()])
+		} catch (error) {
+			setAccountError((error as Error).message)
+		}
+	}
 
 	return (
 		<div className="space-y-6">
@@ -250,14 +356,14 @@ export function MainWallet({
 								<div>
 									<div className="font-medium text-gray-800 pl-3">
 										{selectedAccount.name}
-                    <Button
+										<Button
 											onClick={() =>
 												setShowAccounts(true)
 											}
 											size="sm"
 											variant="ghost"
 											className="text-sm">
-											+
+											⇅
 										</Button>
 									</div>
 									<div className="text-xs text-gray-500">
@@ -438,7 +544,8 @@ export function MainWallet({
 						onClick={() => setShowSendETH(true)}
 						disabled={
 							!networkInfo?.isConnected ||
-							parseFloat(balance) === 0
+							parseFloat(balance) === 0 ||
+							selectedAccount.type === 'watch'
 						}>
 						💸 发送
 					</Button>
@@ -460,6 +567,11 @@ export function MainWallet({
 						)}
 					</Button>
 				</div>
+				{selectedAccount.type === 'watch' && (
+					<div className="text-xs text-gray-500 text-center">
+						👀 观察账户只读，无法发送交易或签名
+					</div>
+				)}
 				{parseFloat(balance) === 0 && (
 					<div className="text-xs text-amber-600 text-center">
 						⚠️ 余额不足，无法发送交易
@@ -477,54 +589,180 @@ export function MainWallet({
 				)}
 			</div>
 
+			{/* 代币列表 */}
+			<TokenList
+				address={currentAccount.address}
+				currentNetwork={currentNetwork}
+			/>
+
 			{/* 切换账户 */}
-      {showAccounts && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-					<div className="bg-white rounded-lg max-w-md w-full h-[50vh]">
-            <div className="space-y-4 h-[42vh] overflow-y-auto">
-              {accounts.map((account, index) => (
-                <div
-                  key={account.address}
-                  className="bg-white border border-gray-200 rounded-lg p-4 space-y-3 cursor-pointer"
-                  onClick={() => setSelectedAccount(account)}
-                >
-                  {/* 账户名称和索引 */}
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                        <span className="text-blue-600 font-medium text-sm">
-                          {index + 1}
-                        </span>
-                      </div>
-                      <div>
-                        <div className="font-medium text-gray-800 pl-3">
-                          {account.name}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                            {account.address}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>  
-            <div className="flex space-x-2">
-              <Button
-                onClick={() => addNewAccount()}
-                variant="secondary"
-                className="w-full text-sm">
-                + 新增账户
-              </Button> 
-              <Button
-                onClick={() => setShowAccounts(false)}
-                variant="secondary"
-                className="w-full text-sm">
-                关闭
-              </Button> 
-            </div>     
-          </div>
-        </div>
+			{showAccounts && (
+				<div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+					<div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] flex flex-col p-4 space-y-3">
+						<div className="flex items-center justify-between">
+							<h3 className="text-lg font-semibold">切换账户</h3>
+							<label className="flex items-center space-x-1 text-xs text-gray-500">
+								<input
+									type="checkbox"
+									checked={showHiddenAccounts}
+									onChange={(e) =>
+										setShowHiddenAccounts(e.target.checked)
+									}
+								/>
+								<span>显示隐藏账户</span>
+							</label>
+						</div>
+
+						{accountError && (
+							<div className="text-xs text-red-600">
+								{accountError}
+							</div>
+						)}
+
+						<div className="space-y-2 flex-1 overflow-y-auto">
+							{visibleAccounts.map((account) => (
+								<div
+									key={account.address}
+									className={`border rounded-lg p-3 cursor-pointer ${
+										account.address === selectedAccount.address
+											? 'border-blue-500 bg-blue-50'
+											: 'border-gray-200 bg-white'
+									} ${account.hidden ? 'opacity-60' : ''}`}
+									onClick={() =>
+										handleSelectAccount(account.address)
+									}>
+									{editingAddress === account.address ? (
+										<div
+											className="flex items-center space-x-2"
+											onClick={(e) => e.stopPropagation()}>
+											<input
+												value={editingName}
+												onChange={(e) =>
+													setEditingName(e.target.value)
+												}
+												onKeyDown={(e) => {
+													if (e.key === 'Enter') {
+														handleRenameAccount()
+													}
+												}}
+												maxLength={24}
+												autoFocus
+												className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+											/>
+											<Button
+												size="sm"
+												onClick={handleRenameAccount}>
+												保存
+											</Button>
+											<Button
+												size="sm"
+												variant="secondary"
+												onClick={() => setEditingAddress('')}>
+												取消
+											</Button>
+										</div>
+									) : (
+										<div className="flex items-center justify-between">
+											<div className="min-w-0">
+												<div className="font-medium text-gray-800 truncate">
+													{account.name}
+													{account.keyringType ===
+														'simple' && (
+														<span className="ml-2 text-xs text-gray-400">
+															导入
+														</span>
+													)}
+													{account.type === 'watch' && (
+														<span className="ml-2 text-xs text-gray-400">
+															观察
+														</span>
+													)}
+												</div>
+												<div className="text-xs text-gray-500 font-mono">
+													{formatAddress(account.address)}
+												</div>
+											</div>
+											<div
+												className="flex items-center space-x-1"
+												onClick={(e) => e.stopPropagation()}>
+												<Button
+													size="sm"
+													variant="ghost"
+													onClick={() => {
+														setEditingAddress(
+															account.address
+														)
+														setEditingName(account.name)
+													}}>
+													✏️
+												</Button>
+												{account.type === 'watch' && (
+													<Button
+														size="sm"
+														variant="ghost"
+														onClick={() =>
+															handleRemoveWatchAccount(account)
+														}>
+														移除
+													</Button>
+												)}
+												{account.address !==
+													selectedAccount.address && (
+													<Button
+														size="sm"
+														variant="ghost"
+														onClick={() =>
+															handleToggleHidden(account)
+														}>
+														{account.hidden
+															? '显示'
+															: '隐藏'}
+													</Button>
+												)}
+											</div>
+										</div>
+									)}
+								</div>
+							))}
+						</div>
+
+						<div className="flex space-x-2">
+							<input
+								value={watchInput}
+								onChange={(e) => setWatchInput(e.target.value)}
+								placeholder="地址或 ENS 名称"
+								className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+							/>
+							<Button
+								size="sm"
+								variant="secondary"
+								onClick={handleAddWatchAccount}
+								loading={isAddingWatch}
+								disabled={!watchInput.trim() || isAddingWatch}>
+								👀 添加观察账户
+							</Button>
+						</div>
+
+						<div className="flex space-x-2">
+							<Button
+								onClick={() => addNewAccount()}
+								variant="secondary"
+								className="flex-1 text-sm">
+								+ 新增账户
+							</Button>
+							<Button
+								onClick={() => {
+									setEditingAddress('')
+									setAccountError('')
+									setShowAccounts(false)
+								}}
+								variant="secondary"
+								className="flex-1 text-sm">
+								关闭
+							</Button>
+						</div>
+					</div>
+				</div>
 			)}
 
 			{/* 最近交易 */}
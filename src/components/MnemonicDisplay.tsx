@@ -1,26 +1,33 @@
 import React, { useState } from 'react'
 
+import { SecurityService } from '~services/SecurityService'
+
 import { Button } from './Button'
 
 interface MnemonicDisplayProps {
 	mnemonic: string
 	onContinue?: () => void
 	onBack?: () => void
+	// 助记词默认模糊显示，只有按住时才显示明文
+	holdToReveal?: boolean
 }
 
 export function MnemonicDisplay({
 	mnemonic,
 	onContinue,
-	onBack
+	onBack,
+	holdToReveal = false
 }: MnemonicDisplayProps) {
-	const [isRevealed, setIsRevealed] = useState(false)
+	const [isRevealed, setIsRevealed] = useState(holdToReveal)
+	const [isHolding, setIsHolding] = useState(false)
 	const [isCopied, setIsCopied] = useState(false)
 
 	const words = mnemonic.split(' ')
+	const isBlurred = holdToReveal && !isHolding
 
 	const handleCopy = async () => {
 		try {
-			await navigator.clipboard.writeText(mnemonic)
+			await SecurityService.copySensitive(mnemonic)
 			setIsCopied(true)
 			setTimeout(() => setIsCopied(false), 2000)
 		} catch (error) {
@@ -38,7 +45,7 @@ export function MnemonicDisplay({
 				<div className="text-4xl mb-3">🔐</div>
 				<h2 className="text-2xl font-bold text-gray-800">您的助记词</h2>
 				<p className="text-gray-600 mt-2">
-					请安全保存这12个单词，它们是恢复钱包的唯一方式
+					请安全保存这{words.length}个单词，它们是恢复钱包的唯一方式
 				</p>
 			</div>
 
@@ -73,7 +80,8 @@ export function MnemonicDisplay({
 				) : (
 					<div className="space-y-4">
 						{/* 助记词网格 */}
-						<div className="grid grid-cols-3 gap-3">
+						<div
+							className={`grid grid-cols-3 gap-3 transition ${isBlurred ? 'blur-sm select-none' : ''}`}>
 							{words.map((word, index) => (
 								<div
 									key={index}
@@ -88,6 +96,19 @@ export function MnemonicDisplay({
 							))}
 						</div>
 
+						{holdToReveal && (
+							<button
+								type="button"
+								className="w-full py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg select-none"
+								onMouseDown={() => setIsHolding(true)}
+								onMouseUp={() => setIsHolding(false)}
+								onMouseLeave={() => setIsHolding(false)}
+								onTouchStart={() => setIsHolding(true)}
+								onTouchEnd={() => setIsHolding(false)}>
+								{isHolding ? '松开隐藏' : '👁️ 按住显示助记词'}
+							</button>
+						)}
+
 						{/* 复制按钮 */}
 						<Button
 							onClick={handleCopy}
@@ -95,6 +116,10 @@ export function MnemonicDisplay({
 							className="w-full">
 							{isCopied ? '✅ 已复制' : '📋 复制助记词'}
 						</Button>
+						<p className="text-xs text-gray-500 text-center">
+							复制后 {SecurityService.CLIPBOARD_CLEAR_MS / 1000}{' '}
+							秒将自动清空剪贴板
+						</p>
 					</div>
 				)}
 			</div>
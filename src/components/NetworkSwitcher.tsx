@@ -29,7 +29,7 @@ export const NetworkSwitcher: React.FC<NetworkSwitcherProps> = ({
 			await blockchainService.waitForInitialization()
 			const network = blockchainService.getCurrentNetwork()
 			const blockNumber = await blockchainService.getCurrentBlockNumber()
-			setCurrentNetwork('sepolia')
+			setCurrentNetwork(blockchainService.getCurrentNetworkKey())
 		} catch (err: any) {
 			setError(err.message)
 		} finally {
@@ -1,6 +1,8 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 
 import { blockchainService } from '../services/BlockchainService'
+import { nftService } from '../services/NftService'
+import type { NftScanResult, NftTokenType, UserNFT } from '../types/blockchain'
 import { Button } from './Button'
 import { Card } from './Card'
 import { ErrorAlert } from './ErrorAlert'
@@ -10,22 +12,8 @@ import { LoadingSpinner } from './LoadingSpinner'
 interface NFTCollection {
 	contractAddress: string
 	name: string
-	symbol: string
-	totalSupply: string
-	tokenType: 'ERC721' | 'ERC1155'
-}
-
-interface NFTToken {
-	tokenId: string
-	name: string
-	description: string
-	image: string
-	attributes: Array<{
-		trait_type: string
-		value: string | number
-	}>
-	contractAddress: string
-	tokenType: 'ERC721' | 'ERC1155'
+	tokenType: NftTokenType
+	count: number
 }
 
 interface NFTViewerProps {
@@ -33,12 +21,16 @@ interface NFTViewerProps {
 	currentNetwork: string
 }
 
+const formatAddress = (address: string) => {
+	return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
 export const NftTab: React.FC<NFTViewerProps> = ({
 	walletAddress,
 	currentNetwork
 }) => {
-	const [collections, setCollections] = useState<NFTCollection[]>([])
-	const [nfts, setNfts] = useState<NFTToken[]>([])
+	const [scanResult, setScanResult] = useState<NftScanResult | null>(null)
+	const [nfts, setNfts] = useState<UserNFT[]>([])
 	const [isLoading, setIsLoading] = useState(false)
 	const [error, setError] = useState<string | null>(null)
 	const [selectedCollection, setSelectedCollection] = useState<string | null>(
@@ -46,69 +38,38 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 	)
 	const [customContract, setCustomContract] = useState('')
 
-	// 模拟的 NFT 数据 - 在实际应用中，这些数据会从区块链或 NFT API 获取
-	const mockCollections: NFTCollection[] = [
-		{
-			contractAddress: '0x1234567890123456789012345678901234567890',
-			name: 'CryptoPunks',
-			symbol: 'PUNK',
-			totalSupply: '10000',
-			tokenType: 'ERC721'
-		},
-		{
-			contractAddress: '0x2345678901234567890123456789012345678901',
-			name: 'Bored Ape Yacht Club',
-			symbol: 'BAYC',
-			totalSupply: '10000',
-			tokenType: 'ERC721'
+	// 按合约分组显示
+	const collections = useMemo(() => {
+		const grouped = new Map<string, NFTCollection>()
+		for (const nft of scanResult?.nfts || []) {
+			const collection = grouped.get(nft.contract)
+			if (collection) {
+				collection.count++
+			} else {
+				grouped.set(nft.contract, {
+					contractAddress: nft.contract,
+					name: nft.collection || formatAddress(nft.contract),
+					tokenType: nft.tokenType,
+					count: 1
+				})
+			}
 		}
-	]
-
-	const mockNFTs: NFTToken[] = [
-		{
-			tokenId: '1234',
-			name: 'CryptoPunk #1234',
-			description: 'A unique digital collectible',
-			image: 'https://via.placeholder.com/300x300/4F46E5/FFFFFF?text=CryptoPunk+1234',
-			attributes: [
-				{ trait_type: 'Type', value: 'Male' },
-				{ trait_type: 'Accessory', value: 'Earring' },
-				{ trait_type: 'Expression', value: 'Smile' }
-			],
-			contractAddress: '0x1234567890123456789012345678901234567890',
-			tokenType: 'ERC721'
-		},
-		{
-			tokenId: '5678',
-			name: 'Bored Ape #5678',
-			description: 'A unique digital collectible from BAYC',
-			image: 'https://via.placeholder.com/300x300/10B981/FFFFFF?text=BAYC+5678',
-			attributes: [
-				{ trait_type: 'Background', value: 'Blue' },
-				{ trait_type: 'Fur', value: 'Brown' },
-				{ trait_type: 'Eyes', value: 'Sleepy' }
-			],
-			contractAddress: '0x2345678901234567890123456789012345678901',
-			tokenType: 'ERC721'
-		}
-	]
+		return Array.from(grouped.values())
+	}, [scanResult])
 
 	useEffect(() => {
+		setScanResult(null)
+		setSelectedCollection(null)
 		loadNFTCollections()
-	}, [walletAddress])
+	}, [walletAddress, currentNetwork])
 
-	const loadNFTCollections = async () => {
+	const loadNFTCollections = async (scanOlder: boolean = false) => {
 		try {
 			setIsLoading(true)
 			setError(null)
 
-			// 在实际应用中，这里会调用 NFT API 或智能合约
-			// const res = await blockchainService.getNfts(walletAddress)
-			// 目前使用模拟数据
-			await new Promise((resolve) => setTimeout(resolve, 1000))
-
-			setCollections(mockCollections)
-			setNfts(mockNFTs)
+			await blockchainService.waitForInitialization()
+			setScanResult(await nftService.getNfts(walletAddress, scanOlder))
 		} catch (err: any) {
 			setError(err.message)
 		} finally {
@@ -116,18 +77,23 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 		}
 	}
 
+	const selectCollection = (contractAddress: string) => {
+		setNfts(
+			(scanResult?.nfts || []).filter(
+				(nft) => nft.contract === contractAddress
+			)
+		)
+		setSelectedCollection(contractAddress)
+	}
+
 	const loadNFTsFromContract = async (contractAddress: string) => {
 		try {
 			setIsLoading(true)
 			setError(null)
 
-			// 在实际应用中，这里会调用智能合约获取 NFT 数据
-			await new Promise((resolve) => setTimeout(resolve, 1000))
-
-			const contractNFTs = mockNFTs.filter(
-				(nft) => nft.contractAddress === contractAddress
+			setNfts(
+				await nftService.getContractNfts(walletAddress, contractAddress)
 			)
-			setNfts(contractNFTs)
 			setSelectedCollection(contractAddress)
 		} catch (err: any) {
 			setError(err.message)
@@ -142,11 +108,7 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 			return
 		}
 
-		loadNFTsFromContract(customContract)
-	}
-
-	const formatAddress = (address: string) => {
-		return `${address.slice(0, 6)}...${address.slice(-4)}`
+		loadNFTsFromContract(customContract.trim())
 	}
 
 	return (
@@ -182,7 +144,7 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 				<div className="flex items-center justify-between mb-4">
 					<h3 className="text-lg font-semibold">我的 NFT 集合</h3>
 					<Button
-						onClick={loadNFTCollections}
+						onClick={() => loadNFTCollections()}
 						disabled={isLoading}
 						variant="secondary"
 						size="sm">
@@ -190,19 +152,34 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 					</Button>
 				</div>
 
-				{isLoading && collections.length === 0 ? (
+				{isLoading && !scanResult ? (
 					<div className="flex items-center justify-center py-8">
 						<LoadingSpinner size="small" />
 						<span className="ml-2 text-gray-500">
 							加载 NFT 集合中...
 						</span>
 					</div>
+				) : collections.length === 0 ? (
+					<div className="text-center py-8 text-gray-500">
+						<div className="text-4xl mb-2">🖼️</div>
+						<p>未发现持有的 NFT</p>
+					</div>
 				) : (
 					<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
 						{collections.map((collection) => (
-							<div className="flex items-center space-x-3">
+							<div
+								key={collection.contractAddress}
+								onClick={() =>
+									selectCollection(collection.contractAddress)
+								}
+								className={`flex items-center space-x-3 p-2 rounded-lg cursor-pointer hover:bg-gray-50 ${
+									selectedCollection ===
+									collection.contractAddress
+										? 'bg-gray-50'
+										: ''
+								}`}>
 								<div className="w-12 h-12 bg-gradient-to-br from-purple-400 to-pink-400 rounded-lg flex items-center justify-center text-white font-bold">
-									{collection.symbol.charAt(0)}
+									{collection.name.charAt(0)}
 								</div>
 								<div className="flex-1">
 									<h4 className="font-medium text-gray-900">
@@ -211,13 +188,37 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 									<p className="text-xs text-gray-400">
 										{formatAddress(
 											collection.contractAddress
-										)}
+										)}{' '}
+										· {collection.tokenType} ·{' '}
+										{collection.count} 个
 									</p>
 								</div>
 							</div>
 						))}
 					</div>
 				)}
+
+				{/* 日志扫描只覆盖部分区块，可以继续向前扫描 */}
+				{scanResult && (
+					<div className="mt-4 flex items-center justify-between text-xs text-gray-500">
+						<span>
+							数据来源：{scanResult.source}
+							{scanResult.fromBlock !== undefined &&
+								`（区块 ${scanResult.fromBlock} - ${scanResult.toBlock}）`}
+						</span>
+						{scanResult.fromBlock !== undefined && (
+							<Button
+								onClick={() => loadNFTCollections(true)}
+								disabled={
+									isLoading || scanResult.fromBlock === 0
+								}
+								variant="ghost"
+								size="sm">
+								⏪ 扫描更早的区块
+							</Button>
+						)}
+					</div>
+				)}
 			</Card>
 
 			{/* NFT 列表 */}
@@ -246,20 +247,26 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 						<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
 							{nfts.map((nft) => (
 								<div
-									key={`${nft.contractAddress}-${nft.tokenId}`}
+									key={`${nft.contract}-${nft.tokenId}`}
 									className="border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow">
 									<div className="aspect-square bg-gray-100">
-										<img
-											src={nft.image}
-											alt={nft.name}
-											className="w-full h-full object-cover"
-											onError={(e) => {
-												const target =
-													e.target as HTMLImageElement
-												target.src =
-													'https://via.placeholder.com/300x300/6B7280/FFFFFF?text=NFT'
-											}}
-										/>
+										{nft.image ? (
+											<img
+												src={nft.image}
+												alt={nft.name}
+												className="w-full h-full object-cover"
+												onError={(e) => {
+													const target =
+														e.target as HTMLImageElement
+													target.src =
+														'https://via.placeholder.com/300x300/6B7280/FFFFFF?text=NFT'
+												}}
+											/>
+										) : (
+											<div className="w-full h-full flex items-center justify-center text-4xl">
+												🖼️
+											</div>
+										)}
 									</div>
 									<div className="p-4">
 										<h4 className="font-medium text-gray-900 truncate">
@@ -274,8 +281,32 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 											</p>
 											<p className="text-xs text-gray-400">
 												{nft.tokenType}
+												{nft.balance &&
+													` · 持有 ${nft.balance}`}
 											</p>
 										</div>
+										{nft.attributes &&
+											nft.attributes.length > 0 && (
+												<div className="mt-2 flex flex-wrap gap-1">
+													{nft.attributes.map(
+														(attribute) => (
+															<span
+																key={
+																	attribute.trait_type
+																}
+																className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">
+																{
+																	attribute.trait_type
+																}
+																:{' '}
+																{
+																	attribute.value
+																}
+															</span>
+														)
+													)}
+												</div>
+											)}
 									</div>
 								</div>
 							))}
@@ -302,6 +333,10 @@ export const NftTab: React.FC<NFTViewerProps> = ({
 					<p>
 						• <strong>元数据</strong>: 显示 NFT 的属性和详细信息
 					</p>
+					<p>
+						• <strong>数据来源</strong>:
+						扫描链上转账记录并确认当前持有，配置索引服务后优先使用索引服务
+					</p>
 					<p>
 						• <strong>即将推出</strong>: NFT 发送、接收和交易功能
 					</p>
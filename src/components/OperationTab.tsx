@@ -1,15 +1,365 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
+
+import { SettingsService } from '~services/SettingsService'
+import type {
+	KdfAlgorithm,
+	UnlockAttempt,
+	UnlockAttemptState
+} from '~types/wallet'
+import { sendBackgroundMessage } from '~utils/messaging'
 
 import { Button } from './Button'
+import { ChangePassword } from './ChangePassword'
+import { ConnectedSites } from './ConnectedSites'
+import { ExportKeystore } from './ExportKeystore'
+import { RevealSecret, type SecretType } from './RevealSecret'
+import { TokenApprovals } from './TokenApprovals'
+import { WalletBackup } from './WalletBackup'
+
+// 可选的自动锁定时间（分钟）
+const AUTO_LOCK_OPTIONS = [1, 5, 10, 15]
+// 连续解锁失败后清除钱包的次数，0 表示不启用
+const WIPE_AFTER_OPTIONS = [0, 10, 20]
+// 助记词恢复时扫描账户的间隔上限
+const GAP_LIMIT_OPTIONS = [1, 5, 10, 20]
+// 保险库可选的密钥派生算法
+const KDF_OPTIONS: { value: KdfAlgorithm; label: string }[] = [
+	{ value: 'scrypt', label: 'scrypt' },
+	{ value: 'argon2id', label: 'Argon2id' }
+]
 
 interface OperationTabProps {
+	currentAddress: string
 	onLockWallet: () => void
 }
 
-export const OperationTab: React.FC<OperationTabProps> = ({ onLockWallet }) => {
+export const OperationTab: React.FC<OperationTabProps> = ({
+	currentAddress,
+	onLockWallet
+}) => {
+	const [injectLegacyProvider, setInjectLegacyProvider] = useState(false)
+	const [autoLockMinutes, setAutoLockMinutes] = useState(
+		SettingsService.DEFAULT_SETTINGS.autoLockMinutes
+	)
+	const [wipeAfterFailedAttempts, setWipeAfterFailedAttempts] = useState(0)
+	const [vaultKdf, setVaultKdf] = useState<KdfAlgorithm>(
+		SettingsService.DEFAULT_SETTINGS.vaultKdf
+	)
+	const [accountDiscoveryGapLimit, setAccountDiscoveryGapLimit] = useState(
+		SettingsService.DEFAULT_SETTINGS.accountDiscoveryGapLimit
+	)
+	const [showConnectedSites, setShowConnectedSites] = useState(false)
+	const [showChangePassword, setShowChangePassword] = useState(false)
+	const [secretType, setSecretType] = useState<SecretType | null>(null)
+	const [showExportKeystore, setShowExportKeystore] = useState(false)
+	const [showBackup, setShowBackup] = useState(false)
+	const [showApprovals, setShowApprovals] = useState(false)
+	const [unlockHistory, setUnlockHistory] = useState<UnlockAttempt[] | null>(
+		null
+	)
+
+	useEffect(() => {
+		SettingsService.getSettings().then((settings) => {
+			setInjectLegacyProvider(settings.injectLegacyProvider)
+			setAutoLockMinutes(settings.autoLockMinutes)
+			setWipeAfterFailedAttempts(settings.wipeAfterFailedAttempts)
+			setVaultKdf(settings.vaultKdf)
+			setAccountDiscoveryGapLimit(settings.accountDiscoveryGapLimit)
+		})
+	}, [])
+
+	const handleToggleLegacyProvider = async () => {
+		const settings = await SettingsService.updateSettings({
+			injectLegacyProvider: !injectLegacyProvider
+		})
+		setInjectLegacyProvider(settings.injectLegacyProvider)
+	}
+
+	const handleAutoLockChange = async (minutes: number) => {
+		const settings = await SettingsService.updateSettings({
+			autoLockMinutes: minutes
+		})
+		setAutoLockMinutes(settings.autoLockMinutes)
+	}
+
+	const handleWipePolicyChange = async (count: number) => {
+		if (
+			count > 0 &&
+			!confirm(
+				`连续 ${count} 次密码错误后将清除本机钱包数据，只能通过助记词恢复。确定启用？`
+			)
+		) {
+			return
+		}
+		const settings = await SettingsService.updateSettings({
+			wipeAfterFailedAttempts: count
+		})
+		setWipeAfterFailedAttempts(settings.wipeAfterFailedAttempts)
+	}
+
+	const handleVaultKdfChange = async (algorithm: KdfAlgorithm) => {
+		const settings = await SettingsService.updateSettings({
+			vaultKdf: algorithm
+		})
+		setVaultKdf(settings.vaultKdf)
+	}
+
+	const handleGapLimitChange = async (gapLimit: number) => {
+		const settings = await SettingsService.updateSettings({
+			accountDiscoveryGapLimit: gapLimit
+		})
+		setAccountDiscoveryGapLimit(settings.accountDiscoveryGapLimit)
+	}
+
+	const handleToggleUnlockHistory = async () => {
+		if (unlockHistory) {
+			setUnlockHistory(null)
+			return
+		}
+		const state = await sendBackgroundMessage<UnlockAttemptState>(
+			'GET_UNLOCK_ATTEMPTS'
+		)
+		setUnlockHistory(state.history)
+	}
+
+	if (secretType) {
+		return (
+			<RevealSecret
+				type={secretType}
+				address={currentAddress}
+				onBack={() => setSecretType(null)}
+			/>
+		)
+	}
+
+	if (showApprovals) {
+		return (
+			<TokenApprovals
+				currentAddress={currentAddress}
+				onBack={() => setShowApprovals(false)}
+			/>
+		)
+	}
+
+	if (showBackup) {
+		return <WalletBackup onBack={() => setShowBackup(false)} />
+	}
+
+	if (showExportKeystore) {
+		return (
+			<ExportKeystore
+				address={currentAddress}
+				onBack={() => setShowExportKeystore(false)}
+			/>
+		)
+	}
+
+	if (showChangePassword) {
+		return <ChangePassword onBack={() => setShowChangePassword(false)} />
+	}
+
+	if (showConnectedSites) {
+		return (
+			<ConnectedSites
+				currentAddress={currentAddress}
+				onBack={() => setShowConnectedSites(false)}
+			/>
+		)
+	}
+
 	return (
 		<div className="border-t border-gray-200 pt-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<div>
+					<p className="text-sm font-medium text-gray-900">
+						注入 window.ethereum
+					</p>
+					<p className="text-xs text-gray-500">
+						兼容不支持 EIP-6963 的旧 Dapp，刷新页面后生效
+					</p>
+				</div>
+				<input
+					type="checkbox"
+					checked={injectLegacyProvider}
+					onChange={handleToggleLegacyProvider}
+					className="h-4 w-4"
+				/>
+			</div>
+			<div className="flex items-center justify-between">
+				<div>
+					<p className="text-sm font-medium text-gray-900">
+						自动锁定
+					</p>
+					<p className="text-xs text-gray-500">
+						空闲超过设定时间或系统锁屏时锁定钱包
+					</p>
+				</div>
+				<select
+					value={autoLockMinutes}
+					onChange={(e) =>
+						handleAutoLockChange(Number(e.target.value))
+					}
+					className="text-sm border border-gray-300 rounded px-2 py-1">
+					{AUTO_LOCK_OPTIONS.map((minutes) => (
+						<option key={minutes} value={minutes}>
+							{minutes} 分钟
+						</option>
+					))}
+				</select>
+			</div>
+			<div className="flex items-center justify-between">
+				<div>
+					<p className="text-sm font-medium text-gray-900">
+						失败后清除钱包
+					</p>
+					<p className="text-xs text-gray-500">
+						连续输错密码达到次数后清除本机钱包数据
+					</p>
+				</div>
+				<select
+					value={wipeAfterFailedAttempts}
+					onChange={(e) =>
+						handleWipePolicyChange(Number(e.target.value))
+					}
+					className="text-sm border border-gray-300 rounded px-2 py-1">
+					{WIPE_AFTER_OPTIONS.map((count) => (
+						<option key={count} value={count}>
+							{count === 0 ? '不启用' : `${count} 次`}
+						</option>
+					))}
+				</select>
+			</div>
+			<div className="flex items-center justify-between">
+				<div>
+					<p className="text-sm font-medium text-gray-900">
+						保险库加密算法
+					</p>
+					<p className="text-xs text-gray-500">
+						AES-256-GCM 密钥派生方式，下次解锁时重新加密
+					</p>
+				</div>
+				<select
+					value={vaultKdf}
+					onChange={(e) =>
+						handleVaultKdfChange(e.target.value as KdfAlgorithm)
+					}
+					className="text-sm border border-gray-300 rounded px-2 py-1">
+					{KDF_OPTIONS.map((option) => (
+						<option key={option.value} value={option.value}>
+							{option.label}
+						</option>
+					))}
+				</select>
+			</div>
+			<div className="flex items-center justify-between">
+				<div>
+					<p className="text-sm font-medium text-gray-900">
+						账户扫描间隔
+					</p>
+					<p className="text-xs text-gray-500">
+						恢复钱包时连续多少个未使用的地址后停止扫描
+					</p>
+				</div>
+				<select
+					value={accountDiscoveryGapLimit}
+					onChange={(e) =>
+						handleGapLimitChange(Number(e.target.value))
+					}
+					className="text-sm border border-gray-300 rounded px-2 py-1">
+					{GAP_LIMIT_OPTIONS.map((gapLimit) => (
+						<option key={gapLimit} value={gapLimit}>
+							{gapLimit} 个
+						</option>
+					))}
+				</select>
+			</div>
+			<div>
+				<Button
+					onClick={handleToggleUnlockHistory}
+					variant="ghost"
+					size="sm"
+					className="text-xs">
+					{unlockHistory ? '收起解锁记录' : '🕑 查看解锁记录'}
+				</Button>
+				{unlockHistory && (
+					<div className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+						{unlockHistory.length === 0 ? (
+							<div className="text-xs text-gray-500">
+								暂无记录
+							</div>
+						) : (
+							unlockHistory.map((attempt) => (
+								<div
+									key={attempt.timestamp}
+									className="flex justify-between text-xs">
+									<span className="text-gray-600">
+										{new Date(
+											attempt.timestamp
+										).toLocaleString()}
+									</span>
+									<span
+										className={
+											attempt.success
+												? 'text-green-600'
+												: 'text-red-600'
+										}>
+										{attempt.success
+											? '解锁成功'
+											: '密码错误'}
+									</span>
+								</div>
+							))
+						)}
+					</div>
+				)}
+			</div>
+			<div className="flex space-x-2">
+				<Button
+					onClick={() => setSecretType('mnemonic')}
+					variant="secondary"
+					className="flex-1 text-sm py-2">
+					📝 查看助记词
+				</Button>
+				<Button
+					onClick={() => setSecretType('privateKey')}
+					variant="secondary"
+					className="flex-1 text-sm py-2">
+					🗝️ 导出私钥
+				</Button>
+				<Button
+					onClick={() => setShowExportKeystore(true)}
+					variant="secondary"
+					className="flex-1 text-sm py-2">
+					💾 导出 Keystore
+				</Button>
+			</div>
+			<div className="flex space-x-2">
+				<Button
+					onClick={() => setShowConnectedSites(true)}
+					variant="secondary"
+					className="flex-1 text-sm py-2">
+					🔗 已连接的网站
+				</Button>
+				<Button
+					onClick={() => setShowApprovals(true)}
+					variant="secondary"
+					className="flex-1 text-sm py-2">
+					🛡️ 授权管理
+				</Button>
+			</div>
 			<div className="flex space-x-2">
+				<Button
+					onClick={() => setShowChangePassword(true)}
+					variant="secondary"
+					className="flex-1 text-sm py-2">
+					🔑 修改密码
+				</Button>
+				<Button
+					onClick={() => setShowBackup(true)}
+					variant="secondary"
+					className="flex-1 text-sm py-2">
+					📦 备份钱包
+				</Button>
 				<Button
 					onClick={onLockWallet}
 					variant="secondary"
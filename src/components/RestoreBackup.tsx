@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react'
+
+import { BackupService } from '~services/BackupService'
+import { SecurityService } from '~services/SecurityService'
+import type { WalletBackupFile, WalletSessionState } from '~types/wallet'
+import { sendBackgroundMessage } from '~utils/messaging'
+
+import { Button } from './Button'
+import { ErrorMessage, WarningMessage } from './ErrorAlert'
+import { Input } from './Input'
+
+interface RestoreBackupProps {
+	onRestored: (session: WalletSessionState) => void
+	onBack?: () => void
+	// 本机已有钱包时提示会被覆盖
+	hasExistingWallet?: boolean
+}
+
+export function RestoreBackup({
+	onRestored,
+	onBack,
+	hasExistingWallet
+}: RestoreBackupProps) {
+	const [content, setContent] = useState('')
+	const [backup, setBackup] = useState<WalletBackupFile | null>(null)
+	const [password, setPassword] = useState('')
+	const [isRestoring, setIsRestoring] = useState(false)
+	const [error, setError] = useState('')
+
+	// 组件卸载时清理密码
+	useEffect(() => {
+		return () => {
+			SecurityService.clearPassword(password)
+		}
+	}, [])
+
+	const handleFileChange = async (
+		event: React.ChangeEvent<HTMLInputElement>
+	) => {
+		const file = event.target.files?.[0]
+		setError('')
+		setBackup(null)
+		setContent('')
+		if (!file) {
+			return
+		}
+
+		try {
+			// 先校验格式、版本和校验和，再要求输入密码
+			const text = await file.text()
+			setBackup(BackupService.parseBackup(text))
+			setContent(text)
+		} catch (err) {
+			setError((err as Error).message)
+		}
+	}
+
+	const handleRestore = async () => {
+		if (
+			hasExistingWallet &&
+			!confirm('恢复备份将覆盖本机现有的钱包数据，确定继续？')
+		) {
+			return
+		}
+
+		setIsRestoring(true)
+		setError('')
+		try {
+			const session = await sendBackgroundMessage<WalletSessionState>(
+				'RESTORE_BACKUP',
+				{ content, password }
+			)
+			onRestored(session)
+		} catch (err) {
+			setError((err as Error).message)
+		} finally {
+			SecurityService.clearPassword(password)
+			setPassword('')
+			setIsRestoring(false)
+		}
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="text-center">
+				<div className="text-4xl mb-3">📦</div>
+				<h2 className="text-2xl font-bold text-gray-800">从备份恢复</h2>
+				<p className="text-gray-600 mt-2">
+					选择导出的钱包备份文件并输入备份时的钱包密码
+				</p>
+			</div>
+
+			{hasExistingWallet && (
+				<WarningMessage error="本机已有钱包，恢复后现有数据将被备份内容替换" />
+			)}
+
+			<div className="space-y-3">
+				<input
+					type="file"
+					accept=".json,application/json"
+					onChange={handleFileChange}
+					className="w-full text-sm text-gray-600"
+				/>
+				{backup && (
+					<div className="bg-gray-50 rounded-lg p-3 text-xs text-gray-600">
+						备份时间：{new Date(backup.createdAt).toLocaleString()}
+						（格式版本 {backup.version}）
+					</div>
+				)}
+				<Input
+					type="password"
+					label="钱包密码"
+					value={password}
+					onChange={setPassword}
+					showPasswordToggle
+				/>
+			</div>
+
+			{error && (
+				<ErrorMessage error={error} onDismiss={() => setError('')} />
+			)}
+
+			<div className="space-y-3">
+				<Button
+					onClick={handleRestore}
+					loading={isRestoring}
+					disabled={!backup || !password || isRestoring}
+					className="w-full text-lg py-4">
+					📦 恢复钱包
+				</Button>
+				{onBack && (
+					<Button
+						onClick={onBack}
+						variant="secondary"
+						className="w-full">
+						← 返回
+					</Button>
+				)}
+			</div>
+		</div>
+	)
+}
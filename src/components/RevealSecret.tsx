@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react'
+
+import { SecurityService } from '~services/SecurityService'
+import { sendBackgroundMessage } from '~utils/messaging'
+
+import { Button } from './Button'
+import { Input } from './Input'
+import { MnemonicDisplay } from './MnemonicDisplay'
+
+export type SecretType = 'mnemonic' | 'privateKey'
+
+interface RevealSecretProps {
+	type: SecretType
+	// 导出私钥的账户地址
+	address: string
+	onBack: () => void
+}
+
+export const RevealSecret: React.FC<RevealSecretProps> = ({
+	type,
+	address,
+	onBack
+}) => {
+	const [password, setPassword] = useState('')
+	const [secret, setSecret] = useState('')
+	const [isLoading, setIsLoading] = useState(false)
+	const [error, setError] = useState('')
+	const [isHolding, setIsHolding] = useState(false)
+	const [isCopied, setIsCopied] = useState(false)
+	// 卸载时读取最新的密钥进行清理
+	const secretRef = useRef('')
+
+	const title = type === 'mnemonic' ? '查看助记词' : '导出私钥'
+
+	// 关闭页面时清理敏感数据
+	useEffect(() => {
+		return () => {
+			if (type === 'mnemonic') {
+				SecurityService.clearMnemonic(secretRef.current)
+			} else {
+				SecurityService.clearPrivateKey(secretRef.current)
+			}
+			secretRef.current = ''
+		}
+	}, [])
+
+	const handleVerify = async () => {
+		setIsLoading(true)
+		setError('')
+		try {
+			const result =
+				type === 'mnemonic'
+					? await sendBackgroundMessage<string>('REVEAL_MNEMONIC', {
+							password
+						})
+					: await sendBackgroundMessage<string>(
+							'EXPORT_PRIVATE_KEY',
+							{
+								password,
+								address
+							}
+						)
+			secretRef.current = result
+			setSecret(result)
+		} catch (err) {
+			setError((err as Error).message)
+		} finally {
+			SecurityService.clearPassword(password)
+			setPassword('')
+			setIsLoading(false)
+		}
+	}
+
+	const handleCopy = async () => {
+		try {
+			await SecurityService.copySensitive(secret)
+			setIsCopied(true)
+			setTimeout(() => setIsCopied(false), 2000)
+		} catch (err) {
+			console.error('复制失败:', err)
+		}
+	}
+
+	// 卸载时由清理逻辑处理密钥
+	const handleClose = () => {
+		setSecret('')
+		onBack()
+	}
+
+	// 重新输入密码
+	if (!secret) {
+		return (
+			<div className="border-t border-gray-200 pt-4 space-y-3">
+				<div className="flex items-center justify-between">
+					<h3 className="text-sm font-medium text-gray-900">
+						{title}
+					</h3>
+					<Button size="sm" variant="ghost" onClick={onBack}>
+						返回
+					</Button>
+				</div>
+				<div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-800">
+					⚠️ 任何获得
+					{type === 'mnemonic' ? '助记词' : '私钥'}
+					的人都可以完全控制您的资产，请勿在他人面前查看或分享
+				</div>
+				<Input
+					type="password"
+					label="输入密码以继续"
+					value={password}
+					onChange={setPassword}
+					error={error}
+					showPasswordToggle
+				/>
+				<Button
+					fullWidth
+					onClick={handleVerify}
+					loading={isLoading}
+					disabled={!password || isLoading}>
+					确认
+				</Button>
+			</div>
+		)
+	}
+
+	if (type === 'mnemonic') {
+		return (
+			<div className="border-t border-gray-200 pt-4">
+				<MnemonicDisplay
+					mnemonic={secret}
+					onBack={handleClose}
+					holdToReveal
+				/>
+			</div>
+		)
+	}
+
+	return (
+		<div className="border-t border-gray-200 pt-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-gray-900">{title}</h3>
+				<Button size="sm" variant="ghost" onClick={handleClose}>
+					返回
+				</Button>
+			</div>
+			<div className="text-xs text-gray-500 break-all">
+				账户：{address}
+			</div>
+			<div
+				className={`bg-gray-50 rounded-lg p-3 font-mono text-xs text-gray-800 break-all transition ${isHolding ? '' : 'blur-sm select-none'}`}>
+				{secret}
+			</div>
+			<button
+				type="button"
+				className="w-full py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg select-none"
+				onMouseDown={() => setIsHolding(true)}
+				onMouseUp={() => setIsHolding(false)}
+				onMouseLeave={() => setIsHolding(false)}
+				onTouchStart={() => setIsHolding(true)}
+				onTouchEnd={() => setIsHolding(false)}>
+				{isHolding ? '松开隐藏' : '👁️ 按住显示私钥'}
+			</button>
+			<Button variant="secondary" fullWidth onClick={handleCopy}>
+				{isCopied ? '✅ 已复制' : '📋 复制私钥'}
+			</Button>
+			<p className="text-xs text-gray-500 text-center">
+				复制后 {SecurityService.CLIPBOARD_CLEAR_MS / 1000}{' '}
+				秒将自动清空剪贴板
+			</p>
+		</div>
+	)
+}
@@ -1,10 +1,11 @@
 import { ethers } from 'ethers'
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 
 import { blockchainService } from '~services/BlockchainService'
+import { tokenService } from '~services/TokenService'
 import { transactionService } from '~services/TransactionService'
-import { BlockchainError } from '~types/blockchain'
-import type { TransactionRequest } from '~types/blockchain'
+import type { TokenBalance, TransactionRequest } from '~types/blockchain'
+import { sendBackgroundMessage } from '~utils/messaging'
 
 import { Button } from './Button'
 import { GasFeeSelector, type GasSpeed } from './GasFeeSelector'
@@ -15,7 +16,6 @@ import { TransactionStatus } from './TransactionStatus'
 interface SendETHProps {
 	currentAccount: {
 		address: string
-		privateKey: string
 	}
 	onClose: () => void
 	onTransactionSent?: (txHash: string) => void
@@ -57,12 +57,36 @@ export function SendETH({
 	const [isSending, setIsSending] = useState(false)
 
 	const [currentBalance, setCurrentBalance] = useState('')
+	const [tokens, setTokens] = useState<TokenBalance[]>([])
+	// 选中的代币，null 表示发送 ETH
+	const [selectedToken, setSelectedToken] = useState<TokenBalance | null>(
+		null
+	)
+	// 未设置 Gas 的转账交易，用于估算 Gas
+	const [draftTransaction, setDraftTransaction] =
+		useState<TransactionRequest | null>(null)
 	const [transactionPreview, setTransactionPreview] =
 		useState<TransactionPreview | null>(null)
 	const [showConfirmDialog, setShowConfirmDialog] = useState(false)
 	const [showTransactionStatus, setShowTransactionStatus] = useState(false)
 	const [sentTxHash, setSentTxHash] = useState<string | null>(null)
 
+	const assetSymbol = selectedToken?.symbol || 'ETH'
+	const assetDecimals = selectedToken?.decimals ?? 18
+	const assetBalance = selectedToken
+		? selectedToken.formattedBalance
+		: currentBalance
+
+	// Gas 估算需要发送方（代币转账会检查发送方的代币余额）
+	const gasTransaction = useMemo(
+		() =>
+			draftTransaction && {
+				...draftTransaction,
+				from: currentAccount.address
+			},
+		[draftTransaction, currentAccount.address]
+	)
+
 	// 加载初始数据
 	useEffect(() => {
 		loadInitialData()
@@ -73,7 +97,7 @@ export function SendETH({
 		if (recipientAddress || amount) {
 			validateInputs()
 		}
-	}, [recipientAddress, amount, currentBalance])
+	}, [recipientAddress, amount, currentBalance, selectedToken])
 
 	// 当 gas 信息更新时重新构建交易预览
 	useEffect(() => {
@@ -90,10 +114,18 @@ export function SendETH({
 
 	const loadInitialData = async () => {
 		try {
-			const balance = await blockchainService.getETHBalance(
-				currentAccount.address
-			)
+			const [balance, tokenBalances] = await Promise.all([
+				blockchainService.getETHBalance(currentAccount.address),
+				// 代币余额加载失败时仍可发送 ETH
+				tokenService
+					.getTokenBalances(currentAccount.address)
+					.catch((error) => {
+						console.error('加载代币余额失败:', error)
+						return [] as TokenBalance[]
+					})
+			])
 			setCurrentBalance(balance)
+			setTokens(tokenBalances)
 		} catch (error) {
 			console.error('加载初始数据失败:', error)
 			setValidationErrors({ general: '加载数据失败，请重试' })
@@ -120,11 +152,14 @@ export function SendETH({
 			// 验证转账金额
 			if (amount) {
 				try {
-					const amountBN = ethers.parseEther(amount)
+					const amountBN = ethers.parseUnits(amount, assetDecimals)
 					if (amountBN <= 0n) {
 						errors.amount = '转账金额必须大于 0'
-					} else if (currentBalance) {
-						const balanceBN = ethers.parseEther(currentBalance)
+					} else if (assetBalance) {
+						const balanceBN = ethers.parseUnits(
+							assetBalance,
+							assetDecimals
+						)
 						if (amountBN > balanceBN) {
 							errors.amount = '余额不足'
 						}
@@ -144,6 +179,7 @@ export function SendETH({
 			) {
 				await buildTransaction()
 			} else {
+				setDraftTransaction(null)
 				setTransactionPreview(null)
 			}
 		} catch (error) {
@@ -160,17 +196,26 @@ export function SendETH({
 		setIsBuilding(true)
 		try {
 			// 构建基础交易用于Gas估算
-			const transaction: TransactionRequest = {
-				to: recipientAddress,
-				value: ethers.parseEther(amount).toString()
-			}
+			const transaction = selectedToken
+				? await transactionService.buildERC20Transaction(
+						selectedToken,
+						recipientAddress,
+						amount
+					)
+				: await transactionService.buildETHTransaction(
+						currentAccount.address,
+						recipientAddress,
+						amount
+					)
 
 			// 触发Gas费用选择器更新
 			// 实际的交易构建会在Gas信息更新后通过updateTransactionPreview完成
+			setDraftTransaction(transaction)
 			setTransactionPreview(null)
 		} catch (error) {
 			console.error('构建交易失败:', error)
 			setValidationErrors({ general: '构建交易失败，请重试' })
+			setDraftTransaction(null)
 			setTransactionPreview(null)
 		} finally {
 			setIsBuilding(false)
@@ -178,21 +223,22 @@ export function SendETH({
 	}
 
 	const updateTransactionPreview = async () => {
-		if (!recipientAddress || !amount || !gasInfo) return
+		if (!recipientAddress || !amount || !gasInfo || !draftTransaction)
+			return
 
 		try {
 			// 构建完整交易
 			const gasPrice = ethers.parseUnits(gasInfo.gasPrice, 'gwei')
 			const transaction: TransactionRequest = {
-				to: recipientAddress,
-				value: ethers.parseEther(amount).toString(),
+				...draftTransaction,
 				gasLimit: gasInfo.gasLimit,
 				gasPrice: gasPrice.toString()
 			}
 
-			// 计算总费用
+			// 计算总费用（代币转账只需要 ETH 支付 Gas）
 			const gasCost = BigInt(gasInfo.gasLimit) * gasPrice
-			const totalAmount = ethers.parseEther(amount) + gasCost
+			const totalAmount =
+				(selectedToken ? 0n : ethers.parseEther(amount)) + gasCost
 			const totalCost = ethers.formatEther(totalAmount)
 
 			// 检查总费用是否超过余额
@@ -235,10 +281,15 @@ export function SendETH({
 		try {
 			console.log('开始发送交易...')
 
-			// 使用 TransactionService 签名并发送交易
-			const txHash = await transactionService.signAndSendTransaction(
-				transactionPreview.transaction,
-				currentAccount.privateKey
+			// 由后台使用当前账户签名并发送交易
+			const txHash = await sendBackgroundMessage<string>(
+				'SEND_TRANSACTION',
+				{
+					from: currentAccount.address,
+					chainId: blockchainService.getCurrentNetwork().chainId,
+					transaction: transactionPreview.transaction,
+					token: selectedToken || undefined
+				}
 			)
 
 			console.log('交易已发送:', txHash)
@@ -269,12 +320,9 @@ export function SendETH({
 			console.error('发送交易失败:', error)
 			let errorMessage = '发送交易失败'
 
-			if (error instanceof BlockchainError) {
+			// 后台返回的错误只保留了错误信息
+			if (error instanceof Error && error.message) {
 				errorMessage = error.message
-			} else if (error.code === 'INSUFFICIENT_FUNDS') {
-				errorMessage = '余额不足支付交易费用'
-			} else if (error.code === 'USER_REJECTED') {
-				errorMessage = '用户取消了交易'
 			}
 
 			setValidationErrors({ general: errorMessage })
@@ -284,6 +332,16 @@ export function SendETH({
 		}
 	}
 
+	const handleAssetChange = (tokenAddress: string) => {
+		setSelectedToken(
+			tokens.find((token) => token.address === tokenAddress) || null
+		)
+		setAmount('')
+		setGasInfo(null)
+		setDraftTransaction(null)
+		setTransactionPreview(null)
+	}
+
 	const canProceed =
 		!isValidating &&
 		!isBuilding &&
@@ -309,20 +367,52 @@ export function SendETH({
 			{/* 头部 */}
 			<div className="text-center">
 				<div className="text-4xl mb-3">💸</div>
-				<h2 className="text-2xl font-bold text-gray-800">发送 ETH</h2>
-				<p className="text-gray-600 mt-1">向其他地址转账以太坊</p>
+				<h2 className="text-2xl font-bold text-gray-800">
+					发送 {assetSymbol}
+				</h2>
+				<p className="text-gray-600 mt-1">
+					{selectedToken
+						? '向其他地址转账代币'
+						: '向其他地址转账以太坊'}
+				</p>
 			</div>
 
+			{/* 资产选择 */}
+			{tokens.length > 0 && (
+				<div className="space-y-2">
+					<label className="block text-sm font-medium text-gray-700">
+						资产
+					</label>
+					<select
+						value={selectedToken?.address || ''}
+						onChange={(e) => handleAssetChange(e.target.value)}
+						className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2">
+						<option value="">ETH</option>
+						{tokens.map((token) => (
+							<option key={token.address} value={token.address}>
+								{token.symbol}（余额 {token.formattedBalance}）
+							</option>
+						))}
+					</select>
+				</div>
+			)}
+
 			{/* 当前余额显示 */}
 			<div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
 				<div className="flex items-center justify-between">
 					<span className="text-blue-800 font-medium">当前余额</span>
 					<span className="text-blue-900 font-bold text-lg">
-						{currentBalance
-							? `${parseFloat(currentBalance).toFixed(6)} ETH`
+						{assetBalance
+							? `${parseFloat(assetBalance).toFixed(6)} ${assetSymbol}`
 							: '加载中...'}
 					</span>
 				</div>
+				{selectedToken && currentBalance && (
+					<div className="text-xs text-blue-600 mt-1">
+						Gas 使用 ETH 支付，ETH 余额:{' '}
+						{parseFloat(currentBalance).toFixed(6)} ETH
+					</div>
+				)}
 				<div className="text-xs text-blue-600 mt-1">
 					发送地址: {currentAccount.address.slice(0, 6)}...
 					{currentAccount.address.slice(-4)}
@@ -350,7 +440,7 @@ export function SendETH({
 			{/* 转账金额输入 */}
 			<div className="space-y-2">
 				<label className="block text-sm font-medium text-gray-700">
-					转账金额 (ETH) *
+					转账金额 ({assetSymbol}) *
 				</label>
 				<Input
 					type="number"
@@ -360,12 +450,16 @@ export function SendETH({
 					error={validationErrors.amount}
 				/>
 				<div className="flex justify-between text-xs text-gray-500">
-					<span>最小金额: 0.000001 ETH</span>
-					{currentBalance && (
+					<span>
+						{selectedToken
+							? `代币精度: ${selectedToken.decimals}`
+							: '最小金额: 0.000001 ETH'}
+					</span>
+					{assetBalance && (
 						<button
 							type="button"
 							onClick={() => {
-								setAmount(currentBalance)
+								setAmount(assetBalance)
 							}}
 							className="text-blue-600 hover:text-blue-800">
 							使用最大金额
@@ -375,15 +469,11 @@ export function SendETH({
 			</div>
 
 			{/* Gas 费用选择 */}
-			{recipientAddress &&
-				amount &&
+			{gasTransaction &&
 				!validationErrors.address &&
 				!validationErrors.amount && (
 					<GasFeeSelector
-						transaction={{
-							to: recipientAddress,
-							value: ethers.parseEther(amount).toString()
-						}}
+						transaction={gasTransaction}
 						selectedSpeed={gasSpeed}
 						onSpeedChange={setGasSpeed}
 						onGasInfoUpdate={setGasInfo}
@@ -412,7 +502,7 @@ export function SendETH({
 						<div className="flex justify-between items-center">
 							<span className="text-gray-700">转账金额:</span>
 							<span className="font-bold text-lg text-gray-900">
-								{transactionPreview.amount} ETH
+								{transactionPreview.amount} {assetSymbol}
 							</span>
 						</div>
 
@@ -474,7 +564,9 @@ export function SendETH({
 										ETH
 									</div>
 									<div className="text-xs text-gray-600">
-										转账 + Gas 费用
+										{selectedToken
+											? '仅 Gas 费用，代币另行扣除'
+											: '转账 + Gas 费用'}
 									</div>
 								</div>
 							</div>
@@ -520,7 +612,9 @@ export function SendETH({
 					isOpen={showConfirmDialog}
 					transaction={transactionPreview.transaction}
 					fromAddress={currentAccount.address}
+					recipient={transactionPreview.to}
 					amount={transactionPreview.amount}
+					symbol={assetSymbol}
 					gasLimit={transactionPreview.gasLimit}
 					gasPrice={transactionPreview.gasPrice}
 					totalCost={transactionPreview.totalCost}
@@ -0,0 +1,289 @@
+import { ethers } from 'ethers'
+import React, { useEffect, useState } from 'react'
+
+import { AccountService } from '~services/AccountService'
+import { approvalService } from '~services/ApprovalService'
+import { blockchainService } from '~services/BlockchainService'
+import { gasEstimationService } from '~services/GasEstimationService'
+import type {
+	TokenApproval,
+	TokenApprovalScanResult,
+	TokenApprovalType
+} from '~types/blockchain'
+import { sendBackgroundMessage } from '~utils/messaging'
+
+import { Button } from './Button'
+import { InlineLoadingSpinner } from './LoadingSpinner'
+
+interface TokenApprovalsProps {
+	currentAddress: string
+	onBack: () => void
+}
+
+interface ApprovalItemProps {
+	approval: TokenApproval
+	// 已发送的撤销交易哈希
+	revokeTxHash?: string
+	isRevoking: boolean
+	// 观察账户只读，不能发送撤销交易
+	isReadOnly: boolean
+	onRevoke: (approval: TokenApproval) => void
+}
+
+const TYPE_LABELS: Record<TokenApprovalType, string> = {
+	erc20: 'ERC-20',
+	erc721: 'ERC-721',
+	erc1155: 'ERC-1155'
+}
+
+const getApprovalKey = (approval: TokenApproval) =>
+	`${approval.type}:${approval.token}:${approval.spender}`
+
+const formatAllowance = (approval: TokenApproval) => {
+	if (approval.type !== 'erc20') {
+		return '全部 NFT'
+	}
+	if (approval.isUnlimited) {
+		return '无限额度'
+	}
+	return approval.decimals !== undefined
+		? ethers.formatUnits(approval.allowance || '0', approval.decimals)
+		: approval.allowance
+}
+
+function ApprovalItem({
+	approval,
+	revokeTxHash,
+	isRevoking,
+	isReadOnly,
+	onRevoke
+}: ApprovalItemProps) {
+	const explorerUrl = blockchainService.getCurrentNetwork().blockExplorerUrl
+
+	return (
+		<div
+			className={`bg-white border rounded-lg p-3 space-y-2 ${
+				approval.isUnlimited ? 'border-red-200' : 'border-gray-200'
+			}`}>
+			<div className="flex items-center justify-between">
+				<div className="min-w-0">
+					<div className="text-sm font-medium text-gray-900 truncate">
+						{approval.tokenName ||
+							AccountService.formatAddress(approval.token)}
+					</div>
+					<div className="text-xs text-gray-500">
+						{TYPE_LABELS[approval.type]} · 区块{' '}
+						{approval.blockNumber}
+					</div>
+				</div>
+				<span
+					className={`text-xs px-2 py-0.5 rounded-full ${
+						approval.isUnlimited
+							? 'bg-red-100 text-red-700'
+							: 'bg-gray-100 text-gray-700'
+					}`}>
+					{approval.isUnlimited && '⚠️ '}
+					{formatAllowance(approval)}
+				</span>
+			</div>
+
+			<div className="text-xs text-gray-600">
+				被授权方：
+				<a
+					href={`${explorerUrl}/address/${approval.spender}`}
+					target="_blank"
+					rel="noreferrer"
+					className="font-mono text-blue-600 hover:underline">
+					{AccountService.formatAddress(approval.spender)}
+				</a>
+			</div>
+
+			{revokeTxHash ? (
+				<div className="text-xs text-green-700">
+					⏳ 撤销交易已发送：
+					<a
+						href={`${explorerUrl}/tx/${revokeTxHash}`}
+						target="_blank"
+						rel="noreferrer"
+						className="font-mono hover:underline">
+						{revokeTxHash.slice(0, 10)}...
+					</a>
+				</div>
+			) : (
+				<Button
+					size="sm"
+					variant="danger"
+					fullWidth
+					loading={isRevoking}
+					disabled={isRevoking || isReadOnly}
+					onClick={() => onRevoke(approval)}>
+					撤销授权
+				</Button>
+			)}
+		</div>
+	)
+}
+
+export const TokenApprovals: React.FC<TokenApprovalsProps> = ({
+	currentAddress,
+	onBack
+}) => {
+	const [scan, setScan] = useState<TokenApprovalScanResult | null>(null)
+	const [isScanning, setIsScanning] = useState(false)
+	const [revoking, setRevoking] = useState<string | null>(null)
+	const [revokeTxHashes, setRevokeTxHashes] = useState<
+		Record<string, string>
+	>({})
+	const [error, setError] = useState('')
+	const isWatchAccount = AccountService.isWatchAccount(currentAddress)
+
+	useEffect(() => {
+		loadApprovals()
+	}, [currentAddress])
+
+	const loadApprovals = async (scanOlder: boolean = false) => {
+		setIsScanning(true)
+		setError('')
+		try {
+			await blockchainService.waitForInitialization()
+			setScan(
+				await approvalService.getApprovals(currentAddress, scanOlder)
+			)
+		} catch (err) {
+			console.error('扫描授权失败:', err)
+			setError((err as Error).message || '扫描授权失败')
+		} finally {
+			setIsScanning(false)
+		}
+	}
+
+	const handleRevoke = async (approval: TokenApproval) => {
+		if (isWatchAccount) {
+			return
+		}
+		const key = getApprovalKey(approval)
+		setRevoking(key)
+		setError('')
+		try {
+			const transaction = approvalService.buildRevokeTransaction(approval)
+			const gasInfo = await gasEstimationService.getTransactionGasInfo({
+				...transaction,
+				from: currentAddress
+			})
+			if (
+				!confirm(
+					`撤销对 ${approval.spender} 的授权？\n预计 Gas 费用 ${gasInfo.totalCostsInETH.standard} ETH`
+				)
+			) {
+				return
+			}
+
+			const txHash = await sendBackgroundMessage<string>(
+				'SEND_TRANSACTION',
+				{
+					from: currentAddress,
+					chainId: blockchainService.getCurrentNetwork().chainId,
+					transaction: {
+						...transaction,
+						gasLimit: gasInfo.gasLimit,
+						gasPrice: ethers
+							.parseUnits(gasInfo.gasPrices.standard, 'gwei')
+							.toString()
+					}
+				}
+			)
+			setRevokeTxHashes((prev) => ({ ...prev, [key]: txHash }))
+		} catch (err) {
+			setError((err as Error).message)
+		} finally {
+			setRevoking(null)
+		}
+	}
+
+	const approvals = scan?.approvals || []
+	const unlimitedCount = approvals.filter(
+		(approval) => approval.isUnlimited
+	).length
+
+	return (
+		<div className="border-t border-gray-200 pt-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-gray-900">授权管理</h3>
+				<Button size="sm" variant="ghost" onClick={onBack}>
+					返回
+				</Button>
+			</div>
+
+			<p className="text-xs text-gray-500">
+				列出当前账户在本网络上授予的代币额度和 NFT
+				全部授权，不再使用的授权建议及时撤销
+			</p>
+
+			{isWatchAccount && (
+				<div className="text-xs text-gray-500">
+					👀 观察账户只读，无法撤销授权
+				</div>
+			)}
+
+			{error && <div className="text-xs text-red-600">{error}</div>}
+
+			{isScanning && !scan ? (
+				<InlineLoadingSpinner text="正在扫描授权记录..." />
+			) : (
+				<>
+					{unlimitedCount > 0 && (
+						<div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-800">
+							⚠️ 发现 {unlimitedCount}{' '}
+							个无限额度授权，被授权的合约可以随时转走对应资产
+						</div>
+					)}
+
+					{approvals.length === 0 ? (
+						<div className="text-sm text-gray-500 text-center py-4">
+							未发现有效的授权
+						</div>
+					) : (
+						approvals.map((approval) => {
+							const key = getApprovalKey(approval)
+							return (
+								<ApprovalItem
+									key={key}
+									approval={approval}
+									revokeTxHash={revokeTxHashes[key]}
+									isRevoking={revoking === key}
+									isReadOnly={isWatchAccount}
+									onRevoke={handleRevoke}
+								/>
+							)
+						})
+					)}
+
+					{scan && (
+						<div className="text-xs text-gray-500 text-center">
+							已扫描区块 {scan.fromBlock} - {scan.toBlock}
+						</div>
+					)}
+					<div className="flex space-x-2">
+						<Button
+							size="sm"
+							variant="secondary"
+							className="flex-1"
+							loading={isScanning}
+							disabled={isScanning}
+							onClick={() => loadApprovals()}>
+							🔄 刷新
+						</Button>
+						<Button
+							size="sm"
+							variant="secondary"
+							className="flex-1"
+							disabled={isScanning || scan?.fromBlock === 0}
+							onClick={() => loadApprovals(true)}>
+							⏪ 扫描更早的区块
+						</Button>
+					</div>
+				</>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react'
+
+import { blockchainService } from '~services/BlockchainService'
+import { tokenService } from '~services/TokenService'
+import type { TokenBalance, TokenInfo } from '~types/blockchain'
+
+import { AddToken } from './AddToken'
+import { Button } from './Button'
+import { InlineLoadingSpinner } from './LoadingSpinner'
+
+interface TokenListProps {
+	address: string
+	currentNetwork: string
+}
+
+// 余额最多显示的小数位数
+const MAX_DISPLAY_DECIMALS = 4
+
+function TokenIcon({ token }: { token: TokenInfo }) {
+	if (token.image) {
+		return (
+			<img
+				src={token.image}
+				alt={token.symbol}
+				className="w-8 h-8 rounded-full"
+			/>
+		)
+	}
+	return (
+		<div className="w-8 h-8 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center text-xs font-bold">
+			{token.symbol.slice(0, 3)}
+		</div>
+	)
+}
+
+export const TokenList: React.FC<TokenListProps> = ({
+	address,
+	currentNetwork
+}) => {
+	const [tokens, setTokens] = useState<TokenBalance[]>([])
+	const [hiddenTokens, setHiddenTokens] = useState<TokenInfo[]>([])
+	const [showHidden, setShowHidden] = useState(false)
+	const [showAddToken, setShowAddToken] = useState(false)
+	const [isLoading, setIsLoading] = useState(false)
+	const [error, setError] = useState('')
+
+	useEffect(() => {
+		loadTokens()
+
+		// 确认窗口中通过 wallet_watchAsset 添加代币后刷新
+		return tokenService.onChanged(loadTokens)
+	}, [address, currentNetwork])
+
+	const loadTokens = async () => {
+		setIsLoading(true)
+		setError('')
+		try {
+			await blockchainService.waitForInitialization()
+			const [balances, allTokens] = await Promise.all([
+				tokenService.getTokenBalances(address),
+				tokenService.getTokens(address, undefined, true)
+			])
+			setTokens(balances)
+			setHiddenTokens(allTokens.filter((token) => token.hidden))
+		} catch (err) {
+			console.error('加载代币余额失败:', err)
+			setError((err as Error).message || '代币余额查询失败')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	const handleSetHidden = async (token: TokenInfo, hidden: boolean) => {
+		try {
+			await tokenService.setTokenHidden(
+				address,
+				token.chainId,
+				token.address,
+				hidden
+			)
+		} catch (err) {
+			setError((err as Error).message)
+		}
+	}
+
+	const formatBalance = (value: string) => {
+		const [integer, fraction = ''] = value.split('.')
+		const trimmed = fraction
+			.slice(0, MAX_DISPLAY_DECIMALS)
+			.replace(/0+$/, '')
+		return trimmed ? `${integer}.${trimmed}` : integer
+	}
+
+	return (
+		<div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-gray-900">代币</h3>
+				<div className="flex space-x-1">
+					<Button
+						size="sm"
+						variant="ghost"
+						onClick={() => setShowAddToken(!showAddToken)}>
+						➕ 添加
+					</Button>
+					<Button
+						size="sm"
+						variant="ghost"
+						onClick={loadTokens}
+						disabled={isLoading}>
+						🔄 刷新
+					</Button>
+				</div>
+			</div>
+
+			{showAddToken && (
+				<AddToken
+					account={address}
+					onAdded={() => setShowAddToken(false)}
+					onCancel={() => setShowAddToken(false)}
+				/>
+			)}
+
+			{isLoading && tokens.length === 0 ? (
+				<InlineLoadingSpinner text="加载代币余额..." />
+			) : error ? (
+				<div className="text-xs text-red-600">❌ {error}</div>
+			) : tokens.length === 0 ? (
+				<div className="text-xs text-gray-500 text-center">
+					当前网络没有可显示的代币
+				</div>
+			) : (
+				<div className="divide-y divide-gray-100">
+					{tokens.map((token) => (
+						<div
+							key={token.address}
+							className="group flex items-center justify-between py-2">
+							<div className="flex items-center space-x-3 min-w-0">
+								<TokenIcon token={token} />
+								<div className="min-w-0">
+									<div className="text-sm font-medium text-gray-900">
+										{token.symbol}
+									</div>
+									{token.name && (
+										<div className="text-xs text-gray-500 truncate">
+											{token.name}
+										</div>
+									)}
+								</div>
+							</div>
+							<div className="flex items-center space-x-2">
+								<div
+									className="text-sm font-mono text-gray-900"
+									title={token.formattedBalance}>
+									{formatBalance(token.formattedBalance)}
+								</div>
+								<button
+									onClick={() => handleSetHidden(token, true)}
+									className="text-xs text-gray-400 hover:text-gray-600 hidden group-hover:block">
+									隐藏
+								</button>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+
+			{/* 已隐藏的代币 */}
+			{hiddenTokens.length > 0 && (
+				<div className="space-y-2">
+					<button
+						onClick={() => setShowHidden(!showHidden)}
+						className="text-xs text-gray-500 hover:text-gray-700">
+						{showHidden ? '▾' : '▸'} 已隐藏的代币（
+						{hiddenTokens.length}）
+					</button>
+					{showHidden &&
+						hiddenTokens.map((token) => (
+							<div
+								key={token.address}
+								className="flex items-center justify-between text-xs text-gray-500">
+								<span>
+									{token.symbol}{' '}
+									<span className="font-mono">
+										{token.address.slice(0, 6)}...
+										{token.address.slice(-4)}
+									</span>
+								</span>
+								<button
+									onClick={() =>
+										handleSetHidden(token, false)
+									}
+									className="text-blue-600 hover:text-blue-700">
+									取消隐藏
+								</button>
+							</div>
+						))}
+				</div>
+			)}
+		</div>
+	)
+}
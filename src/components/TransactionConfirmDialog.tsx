@@ -9,7 +9,11 @@ interface TransactionConfirmDialogProps {
 	isOpen: boolean
 	transaction: TransactionRequest
 	fromAddress: string
+	// 实际接收方，代币转账时 transaction.to 为代币合约
+	recipient?: string
 	amount: string
+	// 转账资产符号，非 ETH 时总费用只包含 Gas
+	symbol?: string
 	gasLimit: string
 	gasPrice: string
 	totalCost: string
@@ -23,7 +27,9 @@ export function TransactionConfirmDialog({
 	isOpen,
 	transaction,
 	fromAddress,
+	recipient,
 	amount,
+	symbol = 'ETH',
 	gasLimit,
 	gasPrice,
 	totalCost,
@@ -37,6 +43,7 @@ export function TransactionConfirmDialog({
 	const gasCost = ethers.formatEther(
 		BigInt(gasLimit) * BigInt(ethers.parseUnits(gasPrice, 'gwei'))
 	)
+	const isToken = symbol !== 'ETH'
 
 	return (
 		<div className="modal-overlay">
@@ -75,10 +82,22 @@ export function TransactionConfirmDialog({
 								接收方
 							</div>
 							<div className="font-mono text-sm text-gray-800 break-all">
-								{transaction.to}
+								{recipient || transaction.to}
 							</div>
 						</div>
 
+						{/* 代币合约 */}
+						{isToken && (
+							<div className="bg-gray-50 rounded-lg p-4">
+								<div className="text-xs font-medium text-gray-600 uppercase tracking-wide mb-2">
+									代币合约
+								</div>
+								<div className="font-mono text-sm text-gray-800 break-all">
+									{transaction.to}
+								</div>
+							</div>
+						)}
+
 						{/* 转账金额 */}
 						<div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
 							<div className="flex justify-between items-center">
@@ -86,7 +105,7 @@ export function TransactionConfirmDialog({
 									转账金额
 								</span>
 								<span className="text-blue-900 font-bold text-xl">
-									{amount} ETH
+									{amount} {symbol}
 								</span>
 							</div>
 						</div>
@@ -135,7 +154,9 @@ export function TransactionConfirmDialog({
 										总费用
 									</div>
 									<div className="text-xs text-orange-600">
-										转账金额 + Gas 费用
+										{isToken
+											? 'Gas 费用（代币另行扣除）'
+											: '转账金额 + Gas 费用'}
 									</div>
 								</div>
 								<div className="text-right">
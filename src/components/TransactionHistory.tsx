@@ -61,7 +61,7 @@ function TransactionItem({
 	}
 
 	const statusDisplay = getStatusDisplay()
-	const formattedAmount = formatAmount(transaction.value)
+	const { amount: formattedAmount, symbol } = getAmountDisplay(transaction)
 
 	return (
 		<div
@@ -78,7 +78,7 @@ function TransactionItem({
 					</div>
 					<div className="flex-1 min-w-0">
 						<div className="font-medium text-gray-900 mb-1">
-							{isOutgoing ? '发送' : '接收'} ETH
+							{isOutgoing ? '发送' : '接收'} {symbol}
 						</div>
 						<div className="text-sm text-gray-500 mb-2">
 							{isOutgoing ? '至' : '来自'}
@@ -97,7 +97,7 @@ function TransactionItem({
 						{isOutgoing ? '-' : '+'}
 						{formattedAmount}
 					</div>
-					<div className="text-xs text-gray-500 mb-2">ETH</div>
+					<div className="text-xs text-gray-500 mb-2">{symbol}</div>
 					<div
 						className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${statusDisplay.bgColor} ${statusDisplay.color} border`}>
 						<span>{statusDisplay.icon}</span>
@@ -140,6 +140,17 @@ const formatAmount = (weiValue: string): string => {
 	}
 }
 
+// 工具函数：交易金额和资产符号，代币转账使用记录中的代币数量
+const getAmountDisplay = (
+	transaction: TransactionRecord
+): { amount: string; symbol: string } =>
+	transaction.token
+		? {
+				amount: parseFloat(transaction.token.amount).toFixed(6),
+				symbol: transaction.token.symbol
+			}
+		: { amount: formatAmount(transaction.value), symbol: 'ETH' }
+
 export function TransactionHistory({
 	currentAddress,
 	onRefresh
@@ -272,6 +283,7 @@ export function TransactionHistory({
 		const isOutgoing =
 			selectedTransaction.from.toLowerCase() ===
 			currentAddress.toLowerCase()
+		const amountDisplay = getAmountDisplay(selectedTransaction)
 		const statusDisplay = (() => {
 			switch (selectedTransaction.status) {
 				case 'pending':
@@ -335,7 +347,8 @@ export function TransactionHistory({
 									{statusDisplay.text}
 								</div>
 								<div className="text-sm text-gray-600">
-									{isOutgoing ? '发送' : '接收'} ETH 交易
+									{isOutgoing ? '发送' : '接收'}{' '}
+									{amountDisplay.symbol} 交易
 								</div>
 							</div>
 						</div>
@@ -350,7 +363,7 @@ export function TransactionHistory({
 							<div
 								className={`text-2xl font-bold ${isOutgoing ? 'text-red-600' : 'text-green-600'}`}>
 								{isOutgoing ? '-' : '+'}
-								{formatAmount(selectedTransaction.value)} ETH
+								{amountDisplay.amount} {amountDisplay.symbol}
 							</div>
 						</div>
 					</div>
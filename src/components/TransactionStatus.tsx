@@ -243,7 +243,9 @@ export function TransactionStatus({
 					<div className="flex justify-between">
 						<span className="text-gray-600">金额:</span>
 						<span className="text-gray-800 font-bold">
-							{parseFloat(transaction.value).toFixed(6)} ETH
+							{transaction.token
+								? `${parseFloat(transaction.token.amount).toFixed(6)} ${transaction.token.symbol}`
+								: `${parseFloat(transaction.value).toFixed(6)} ETH`}
 						</span>
 					</div>
 
@@ -1,6 +1,9 @@
 import React, { useEffect, useState } from 'react'
 
 import { SecurityService } from '~services/SecurityService'
+import { UnlockAttemptService } from '~services/UnlockAttemptService'
+import type { UnlockAttemptState } from '~types/wallet'
+import { sendBackgroundMessage } from '~utils/messaging'
 
 import { Button } from './Button'
 import { ErrorMessage, WarningMessage } from './ErrorAlert'
@@ -15,14 +18,23 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 	const [showPassword, setShowPassword] = useState(false)
 	const [isUnlocking, setIsUnlocking] = useState(false)
 	const [error, setError] = useState('')
-	const [attempts, setAttempts] = useState(0)
-	const [lockoutTime, setLockoutTime] = useState<number | null>(null)
+	// 失败次数和锁定时间由后台持久化保存
+	const [attemptState, setAttemptState] = useState<UnlockAttemptState | null>(
+		null
+	)
+	const [now, setNow] = useState(Date.now())
 
-	// 重置尝试次数
-	const resetAttempts = () => {
-		setAttempts(0)
-		setError('')
-		setLockoutTime(null)
+	const loadAttemptState = async () => {
+		try {
+			setAttemptState(
+				await sendBackgroundMessage<UnlockAttemptState>(
+					'GET_UNLOCK_ATTEMPTS'
+				)
+			)
+			setNow(Date.now())
+		} catch (error) {
+			console.error('获取解锁尝试记录失败:', error)
+		}
 	}
 
 	// 清理敏感数据
@@ -38,16 +50,26 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 
 	// 组件卸载时清理敏感数据
 	useEffect(() => {
+		loadAttemptState()
+
 		return () => {
 			clearSensitiveData()
 		}
 	}, [])
 
-	// 检查是否在锁定期间
-	const isInLockout = () => {
-		if (!lockoutTime) return false
-		return Date.now() < lockoutTime
-	}
+	const lockedUntil = attemptState?.lockedUntil || null
+	const isLocked = !!lockedUntil && now < lockedUntil
+	const remainingSeconds = isLocked
+		? Math.ceil((lockedUntil - now) / 1000)
+		: 0
+
+	// 锁定期间每秒刷新倒计时
+	useEffect(() => {
+		if (!lockedUntil || lockedUntil <= Date.now()) return
+
+		const timer = setInterval(() => setNow(Date.now()), 1000)
+		return () => clearInterval(timer)
+	}, [lockedUntil])
 
 	const handleUnlock = async () => {
 		if (!password) {
@@ -56,9 +78,8 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 		}
 
 		// 检查是否在锁定期间
-		if (isInLockout()) {
-			const remainingTime = Math.ceil((lockoutTime! - Date.now()) / 1000)
-			setError(`请等待 ${remainingTime} 秒后再试`)
+		if (isLocked) {
+			setError(`请等待 ${remainingSeconds} 秒后再试`)
 			return
 		}
 
@@ -69,28 +90,11 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 			await onUnlock(password)
 			// 解锁成功，清除密码
 			setPassword('')
-			setAttempts(0)
 		} catch (error) {
 			console.error('解锁失败:', error)
-			const newAttempts = attempts + 1
-			setAttempts(newAttempts)
-
-			// 根据错误类型提供更友好的错误信息
-			if (
-				error.message.includes('密码错误') ||
-				error.message.includes('解密失败')
-			) {
-				if (newAttempts >= 5) {
-					// 设置30秒锁定期
-					const lockoutDuration = 30 * 1000 // 30秒
-					setLockoutTime(Date.now() + lockoutDuration)
-					setError(
-						'密码错误次数过多，已锁定30秒。请稍后再试或使用助记词重新导入钱包'
-					)
-				} else {
-					setError(`密码错误，请重试 (${newAttempts}/5)`)
-				}
-			} else if (error.message.includes('未找到钱包数据')) {
+
+			// 根据错误类型提供更友好的错误信息（密码错误的提示由后台生成）
+			if (error.message.includes('未找到钱包数据')) {
 				setError('未找到钱包数据，请先创建或导入钱包')
 			} else if (error.message.includes('Chrome 存储 API 不可用')) {
 				setError('存储服务不可用，请确保在扩展环境中运行')
@@ -98,8 +102,9 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 				setError(`解锁失败: ${error.message}`)
 			}
 
-			// 清除密码输入
+			// 清除密码输入并刷新失败次数
 			setPassword('')
+			await loadAttemptState()
 		} finally {
 			setIsUnlocking(false)
 		}
@@ -111,8 +116,9 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 		}
 	}
 
-	const isMaxAttempts = attempts >= 5
-	const isLocked = isInLockout()
+	const remainingFreeAttempts = attemptState
+		? UnlockAttemptService.getRemainingFreeAttempts(attemptState)
+		: 0
 
 	return (
 		<div className="space-y-6">
@@ -156,14 +162,14 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 							}}
 							onKeyPress={handleKeyPress}
 							placeholder="请输入您的钱包密码"
-							disabled={isUnlocking || isMaxAttempts || isLocked}
+							disabled={isUnlocking || isLocked}
 							className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-12 disabled:bg-gray-100 disabled:cursor-not-allowed"
 							autoFocus
 						/>
 						<button
 							type="button"
 							onClick={() => setShowPassword(!showPassword)}
-							disabled={isUnlocking || isMaxAttempts || isLocked}
+							disabled={isUnlocking || isLocked}
 							className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-gray-700 disabled:cursor-not-allowed">
 							{showPassword ? '🙈' : '👁️'}
 						</button>
@@ -190,38 +196,38 @@ export function UnlockWallet({ onUnlock, onBackToWelcome }: UnlockWalletProps) {
 					</div>
 				)}
 
-				{/* 最大尝试次数警告 */}
-				{isMaxAttempts && (
-					<WarningMessage error="密码错误次数过多。为了安全起见，请稍后再试或使用助记词重新导入钱包。" />
+				{/* 锁定警告 */}
+				{isLocked && (
+					<WarningMessage
+						error={`密码错误次数过多，已锁定。请等待 ${remainingSeconds} 秒后再试，每次失败锁定时间都会加倍。`}
+					/>
 				)}
+
+				{/* 失败次数提示 */}
+				{!isLocked &&
+					attemptState &&
+					attemptState.failedCount > 0 &&
+					remainingFreeAttempts > 0 && (
+						<div className="text-xs text-amber-600">
+							已连续失败 {attemptState.failedCount} 次，再失败{' '}
+							{remainingFreeAttempts} 次将暂时锁定
+						</div>
+					)}
 			</div>
 
 			{/* 操作按钮 */}
 			<div className="space-y-3">
 				<Button
 					onClick={handleUnlock}
-					disabled={
-						!password || isUnlocking || isMaxAttempts || isLocked
-					}
+					disabled={!password || isUnlocking || isLocked}
 					className="w-full text-lg py-4">
 					{isUnlocking
 						? '解锁中...'
 						: isLocked
-							? '已锁定'
+							? `已锁定（${remainingSeconds} 秒）`
 							: '🔓 解锁钱包'}
 				</Button>
 
-				{/* 重置按钮 */}
-				{(isMaxAttempts || isLocked) && (
-					<Button
-						onClick={resetAttempts}
-						variant="secondary"
-						className="w-full"
-						disabled={isUnlocking}>
-						🔄 重置尝试次数
-					</Button>
-				)}
-
 				{onBackToWelcome && (
 					<Button
 						onClick={onBackToWelcome}
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react'
+
+import { SecurityService } from '~services/SecurityService'
+import { sendBackgroundMessage } from '~utils/messaging'
+import { downloadTextFile } from '~utils/utils'
+
+import { Button } from './Button'
+import { Input } from './Input'
+
+interface WalletBackupProps {
+	onBack: () => void
+}
+
+export const WalletBackup: React.FC<WalletBackupProps> = ({ onBack }) => {
+	const [password, setPassword] = useState('')
+	const [isExporting, setIsExporting] = useState(false)
+	const [error, setError] = useState('')
+	const [exported, setExported] = useState(false)
+
+	// 组件卸载时清理密码
+	useEffect(() => {
+		return () => {
+			SecurityService.clearPassword(password)
+		}
+	}, [])
+
+	const handleExport = async () => {
+		setIsExporting(true)
+		setError('')
+		try {
+			const backup = await sendBackgroundMessage<string>(
+				'CREATE_BACKUP',
+				{ password }
+			)
+			const date = new Date().toISOString().slice(0, 10)
+			downloadTextFile(`wallet-backup-${date}.json`, backup)
+			setExported(true)
+		} catch (err) {
+			setError((err as Error).message)
+		} finally {
+			SecurityService.clearPassword(password)
+			setPassword('')
+			setIsExporting(false)
+		}
+	}
+
+	return (
+		<div className="border-t border-gray-200 pt-4 space-y-3">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-gray-900">备份钱包</h3>
+				<Button size="sm" variant="ghost" onClick={onBack}>
+					返回
+				</Button>
+			</div>
+
+			{exported ? (
+				<div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+					✅ 备份文件已下载，恢复时需要输入当前的钱包密码
+				</div>
+			) : (
+				<>
+					<p className="text-xs text-gray-500">
+						备份包含加密的保险库、账户名称、已连接的网站、添加的代币、交易记录和钱包设置，
+						整个文件使用钱包密码加密
+					</p>
+					<Input
+						type="password"
+						label="钱包密码"
+						value={password}
+						onChange={setPassword}
+						error={error}
+						showPasswordToggle
+					/>
+					<Button
+						fullWidth
+						onClick={handleExport}
+						loading={isExporting}
+						disabled={!password || isExporting}>
+						📦 导出备份
+					</Button>
+				</>
+			)}
+		</div>
+	)
+}
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react'
 
 import { AccountService } from '~services/AccountService'
+import { blockchainService } from '~services/BlockchainService'
 
 import { MainWallet } from './MainWallet'
 import { NetworkSwitcher } from './NetworkSwitcher'
@@ -11,9 +12,8 @@ import { OperationTab } from './OperationTab'
 interface WalletTabsProps {
 	currentAccount: {
 		address: string
-		privateKey: string
-		mnemonic?: string
 	}
+	onSwitchAccount: (address: string) => void
 	onLockWallet: () => void
 }
 
@@ -21,6 +21,7 @@ type TabType = 'network' | 'nft' | 'settings'
 
 export const WalletTabs: React.FC<WalletTabsProps> = ({
 	currentAccount,
+	onSwitchAccount,
 	onLockWallet
 }) => {
 	const [activeTab, setActiveTab] = useState<TabType>('network')
@@ -35,6 +36,9 @@ export const WalletTabs: React.FC<WalletTabsProps> = ({
 		AccountService.initialize()
 	})
 
+	// 网站通过 wallet_switchEthereumChain 切换网络后同步显示
+	useEffect(() => blockchainService.onNetworkChanged(setCurrentNetwork), [])
+
 	return (
 		<div className="h-full flex flex-col">
 			{/* 用户详情 */}
@@ -42,6 +46,7 @@ export const WalletTabs: React.FC<WalletTabsProps> = ({
 				<MainWallet
 					currentNetwork={currentNetwork}
 					currentAccount={currentAccount}
+					onSwitchAccount={onSwitchAccount}
 				/>
 			</div>
 			{/* 标签页导航 */}
@@ -76,7 +81,10 @@ export const WalletTabs: React.FC<WalletTabsProps> = ({
 					/>
 				)}
 				{activeTab === 'settings' && (
-					<OperationTab onLockWallet={onLockWallet} />
+					<OperationTab
+						currentAddress={currentAccount.address}
+						onLockWallet={onLockWallet}
+					/>
 				)}
 			</div>
 		</div>
@@ -33,7 +33,10 @@ export const DEFAULT_NETWORK = 'sepolia'
 export const RPC_CONFIG = {
 	timeout: 30000, // 30秒超时
 	retryAttempts: 3,
-	retryDelay: 1000 // 1秒重试延迟
+	retryDelay: 1000, // 1秒重试延迟
+	logChunkSize: 5000, // 单次 eth_getLogs 查询的区块数，公共节点通常会限制查询范围
+	minLogChunkSize: 500, // 节点拒绝查询时缩小区块范围的下限
+	logScanWindow: 100000 // 增量扫描日志时首次以及每次向前扫描的区块数
 }
 
 // Gas 配置
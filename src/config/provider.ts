@@ -0,0 +1,38 @@
+// 可以直接转发给 RPC 节点的只读方法（无需用户授权）
+export const READONLY_RPC_METHODS = [
+	'eth_blockNumber',
+	'eth_call',
+	'eth_estimateGas',
+	'eth_feeHistory',
+	'eth_gasPrice',
+	'eth_getBalance',
+	'eth_getBlockByHash',
+	'eth_getBlockByNumber',
+	'eth_getCode',
+	'eth_getLogs',
+	'eth_getStorageAt',
+	'eth_getTransactionByHash',
+	'eth_getTransactionCount',
+	'eth_getTransactionReceipt',
+	'eth_maxPriorityFeePerGas',
+	'eth_syncing',
+	'web3_clientVersion'
+]
+
+// 消息来源标识：inpage 脚本、内容脚本和后台之间的每条消息都必须携带
+export const INPAGE_MESSAGE_TAG = 'plasmo-wallet-inpage'
+export const CONTENT_MESSAGE_TAG = 'plasmo-wallet-content'
+export const BACKGROUND_MESSAGE_TAG = 'plasmo-wallet-background'
+
+// 内容脚本与后台之间长连接的名称
+export const CONTENT_PORT_NAME = 'walletContent'
+
+// EIP-6963 公布的钱包信息
+export const WALLET_PROVIDER_INFO = {
+	name: 'Plasmo Wallet',
+	icon: "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 32 32'%3E%3Crect width='32' height='32' rx='8' fill='%236366f1'/%3E%3Cpath d='M10 8h8a6 6 0 0 1 0 12h-4v4h-4z' fill='white'/%3E%3C/svg%3E",
+	rdns: 'io.github.zxytt.plasmowallet'
+}
+
+// 需要 eth_accounts 权限才能调用的方法
+export const RESTRICTED_RPC_METHODS = ['eth_sendTransaction', 'personal_sign']
@@ -0,0 +1,105 @@
+import type { TokenInfo } from '~types/blockchain'
+
+// Multicall3 在主网和各测试网上的部署地址相同
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+export const MULTICALL3_ABI = [
+	'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]
+
+// 钱包用到的 ERC-20 方法
+export const ERC20_ABI = [
+	'function balanceOf(address owner) view returns (uint256)',
+	'function decimals() view returns (uint8)',
+	'function symbol() view returns (string)',
+	'function name() view returns (string)',
+	'function transfer(address to, uint256 amount) returns (bool)',
+	'function allowance(address owner, address spender) view returns (uint256)',
+	'function approve(address spender, uint256 amount) returns (bool)',
+	'event Approval(address indexed owner, address indexed spender, uint256 value)'
+]
+
+// ERC-721/1155 共用的全部授权方法
+export const NFT_APPROVAL_ABI = [
+	'function isApprovedForAll(address owner, address operator) view returns (bool)',
+	'function setApprovalForAll(address operator, bool approved)',
+	'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+	'function name() view returns (string)',
+	'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)'
+]
+
+// ERC-721 的转账事件与 ERC-20 同名，但 tokenId 也被索引
+export const ERC721_ABI = [
+	'function ownerOf(uint256 tokenId) view returns (address)',
+	'function balanceOf(address owner) view returns (uint256)',
+	'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+	'function tokenURI(uint256 tokenId) view returns (string)',
+	'function name() view returns (string)',
+	'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+	'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+]
+
+export const ERC1155_ABI = [
+	'function balanceOf(address account, uint256 id) view returns (uint256)',
+	'function uri(uint256 id) view returns (string)',
+	'function name() view returns (string)',
+	'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+	'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)'
+]
+
+// ERC-1155 的 ERC-165 接口标识，用于区分全部授权所属的 NFT 标准
+export const ERC1155_INTERFACE_ID = '0xd9b67a26'
+// ERC-721 可枚举扩展，支持时可以直接列出账户持有的 tokenId
+export const ERC721_ENUMERABLE_INTERFACE_ID = '0x780e9d63'
+
+// 解析 ipfs:// 和 ar:// 形式的 NFT 元数据地址
+export const IPFS_GATEWAY = 'https://ipfs.io/ipfs/'
+export const ARWEAVE_GATEWAY = 'https://arweave.net/'
+
+// 代币符号最大长度（与 MetaMask 的 wallet_watchAsset 限制一致）
+export const MAX_TOKEN_SYMBOL_LENGTH = 11
+
+// 每个网络默认显示的代币（按 chainId）
+export const DEFAULT_TOKENS: Record<number, TokenInfo[]> = {
+	// Sepolia 测试网
+	11155111: [
+		{
+			chainId: 11155111,
+			address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+			symbol: 'USDC',
+			name: 'USDC (Circle 测试币)',
+			decimals: 6
+		},
+		{
+			chainId: 11155111,
+			address: '0xFF34B3d4Aee8ddCd6F9AFFFB6Fe49bD371b8a357',
+			symbol: 'DAI',
+			name: 'Dai Stablecoin (Aave 测试币)',
+			decimals: 18
+		}
+	],
+	// 以太坊主网
+	1: [
+		{
+			chainId: 1,
+			address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+			symbol: 'USDC',
+			name: 'USD Coin',
+			decimals: 6
+		},
+		{
+			chainId: 1,
+			address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+			symbol: 'DAI',
+			name: 'Dai Stablecoin',
+			decimals: 18
+		},
+		{
+			chainId: 1,
+			address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+			symbol: 'USDT',
+			name: 'Tether USD',
+			decimals: 6
+		}
+	]
+}
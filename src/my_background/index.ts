@@ -1,20 +1,62 @@
 import { ethers } from 'ethers'
 
+import { NETWORKS } from '~config/blockchain'
+import {
+	BACKGROUND_MESSAGE_TAG,
+	CONTENT_MESSAGE_TAG,
+	CONTENT_PORT_NAME,
+	READONLY_RPC_METHODS,
+	RESTRICTED_RPC_METHODS
+} from '~config/provider'
+import { MAX_TOKEN_SYMBOL_LENGTH } from '~config/tokens'
+import { BackupService } from '~services/BackupService'
 import { blockchainService } from '~services/BlockchainService'
+import { keyringController } from '~services/KeyringController'
+import { PermissionService } from '~services/PermissionService'
+import { requestQueueService } from '~services/RequestQueueService'
+import { SecurityService } from '~services/SecurityService'
+import { SettingsService } from '~services/SettingsService'
 import { StorageService } from '~services/StorageService'
+import { tokenService } from '~services/TokenService'
 import { transactionMonitorService } from '~services/TransactionMonitorService'
 import { transactionSyncService } from '~services/TransactionSyncService'
-import type { TransactionRecord } from '~types/blockchain'
+import { UnlockAttemptService } from '~services/UnlockAttemptService'
+import type { TokenInfo, TransactionRecord } from '~types/blockchain'
+import {
+	ProviderErrorCode,
+	ProviderRpcError,
+	type ApprovalType,
+	type RpcResponse
+} from '~types/provider'
+import { WalletError, WalletErrorType } from '~types/wallet'
+import { toHexChainId, toTransactionRequest } from '~utils/utils'
 
 console.log('background service')
+
+// 清空剪贴板的定时任务
+const CLIPBOARD_CLEAR_ALARM = 'clearClipboard'
+
 // 后台服务类
 class BackgroundService {
 	private isRunning = false
 	private accounts: string[] = []
 	private notificationIdCounter = 0
+	// 与各页面内容脚本的长连接
+	private contentPorts: Set<chrome.runtime.Port> = new Set()
+	// 通知按钮的处理函数，所有通知共用一个 onButtonClicked 监听
+	private notificationHandlers: Map<string, (buttonIndex: number) => void> =
+		new Map()
+	// 当前打开的确认窗口
+	private approvalWindowId: number | null = null
+	private isOpeningApprovalWindow = false
+	// 初始化（包括恢复密钥会话）完成
+	private readonly initialization: Promise<void>
 
 	constructor() {
-		this.initialize()
+		// 唤醒 Service Worker 的事件只会分发给同步注册的监听器
+		this.setupAutoLock()
+		this.setupClipboardClear()
+		this.initialization = this.initialize()
 	}
 
 	// 初始化后台服务
@@ -22,8 +64,17 @@ class BackgroundService {
 		// try {
 		console.log('钱包扩展后台服务初始化...')
 
-		// 初始化区块链服务
-		await blockchainService.initializeProvider()
+		// 初始化区块链服务（恢复上次选择的网络）
+		await blockchainService.waitForInitialization()
+
+		// popup 中切换网络后通知已连接的网站
+		blockchainService.onNetworkChanged(() => {
+			this.notifyContentScripts('NETWORK_CHANGED', {
+				chainId: toHexChainId(
+					blockchainService.getCurrentNetwork().chainId
+				)
+			})
+		})
 
 		// 初始化交易监控服务
 		await this.initializeTransactionMonitoring()
@@ -68,9 +119,13 @@ class BackgroundService {
 	// 加载账户信息
 	private async loadAccounts() {
 		try {
-			// 从存储中获取账户信息
+			// Service Worker 重启后恢复解锁状态
+			await keyringController.restoreSession()
+
+			// 从存储中获取账户信息（锁定时仍可向 Dapp 展示地址）
 			const currentAccount =
-				await StorageService.getItem<string>('currentAccount')
+				keyringController.getState().selectedAddress ||
+				(await StorageService.getItem<string>('currentAccount'))
 			if (currentAccount) {
 				this.accounts = [currentAccount]
 				console.log('加载账户成功:', currentAccount)
@@ -80,34 +135,176 @@ class BackgroundService {
 		}
 	}
 
+	// 自动锁定：系统空闲、锁屏或浏览器重启时清除密钥会话
+	private setupAutoLock() {
+		chrome.idle.onStateChanged.addListener((state) => {
+			if (state !== 'active') {
+				this.lockWallet(`系统状态变为 ${state}`)
+			}
+		})
+
+		chrome.runtime.onStartup.addListener(() => {
+			this.lockWallet('浏览器重启')
+		})
+
+		this.applyAutoLockSettings()
+		SettingsService.onChanged(() => this.applyAutoLockSettings())
+	}
+
+	// 复制助记词或私钥后定时清空剪贴板，popup 关闭后也会执行
+	private setupClipboardClear() {
+		chrome.alarms.onAlarm.addListener((alarm) => {
+			if (alarm.name === CLIPBOARD_CLEAR_ALARM) {
+				this.clearClipboard()
+			}
+		})
+	}
+
+	// Service Worker 没有 DOM，通过离屏文档写入剪贴板
+	private async clearClipboard() {
+		try {
+			if (!(await chrome.offscreen.hasDocument())) {
+				await chrome.offscreen.createDocument({
+					url: 'tabs/clipboard.html',
+					reasons: [chrome.offscreen.Reason.CLIPBOARD],
+					justification: '清空复制到剪贴板的助记词或私钥'
+				})
+			}
+			await chrome.runtime.sendMessage({
+				type: 'OFFSCREEN_CLEAR_CLIPBOARD'
+			})
+			console.log('剪贴板已清空')
+		} catch (error) {
+			console.error('清空剪贴板失败:', error)
+		} finally {
+			await chrome.offscreen.closeDocument().catch(() => {})
+		}
+	}
+
+	// 空闲检测间隔与自动锁定时间一致
+	private async applyAutoLockSettings() {
+		const { autoLockMinutes } = await SettingsService.getSettings()
+		chrome.idle.setDetectionInterval(autoLockMinutes * 60)
+		console.log(`自动锁定时间: ${autoLockMinutes} 分钟`)
+	}
+
+	// 锁定钱包，并通知已连接的网站和扩展页面
+	private async lockWallet(reason: string) {
+		// 事件可能在恢复会话之前到达，等待恢复后再锁定，避免之后又被恢复为解锁状态
+		await this.initialization.catch(() => {})
+		if (!keyringController.isUnlocked()) {
+			return
+		}
+
+		await keyringController.lock()
+		console.log('钱包已锁定:', reason)
+
+		const permissions = await PermissionService.getAllPermissions()
+		Object.keys(permissions).forEach((dappOrigin) =>
+			this.notifyOrigin(dappOrigin, 'ACCOUNT_CHANGED', { accounts: [] })
+		)
+
+		chrome.runtime.sendMessage({ type: 'WALLET_LOCKED' }).catch(() => {
+			// 没有打开的扩展页面
+		})
+	}
+
 	// 设置消息监听
 	private setupMessageListeners() {
-		// 监听来自内容脚本的消息
+		// 监听一次性消息（popup 等扩展页面）
 		chrome.runtime.onMessage.addListener(
 			(message, sender, sendResponse) => {
+				// 只记录消息类型，消息数据可能包含密码、助记词和私钥
 				console.log(
-					'收到来自内容脚本的消息:',
-					message,
+					'收到扩展消息:',
+					message.type,
 					'来源:',
 					sender.tab?.url
 				)
 
 				// 处理不同类型的消息
 				switch (message.type) {
-					case 'INITIALIZE_DAPP_CONNECTION':
-						this.handleDappConnectionInit(message, sendResponse)
-						return true // 表示异步回复
-					case 'REQUEST_ACCOUNTS':
-						this.handleRequestAccounts(message, sendResponse)
-						return true
-					case 'SEND_TRANSACTION':
-						this.handleSendTransaction(message, sendResponse)
+					case 'GET_CONNECTION_STATUS':
+						this.handleGetConnectionStatus(sender, sendResponse)
 						return true
-					case 'SIGN_MESSAGE':
-						this.handleSignMessage(message, sendResponse)
+					case 'REVOKE_SITE_PERMISSION':
+					case 'UPDATE_SITE_ACCOUNTS':
+						// 站点管理仅允许扩展页面调用
+						if (!this.isExtensionPage(sender)) {
+							sendResponse({ success: false, error: '无权限' })
+							return false
+						}
+						this.handleSitePermissionMessage(message, sendResponse)
 						return true
-					case 'GET_CONNECTION_STATUS':
-						this.handleGetConnectionStatus(message, sendResponse)
+					case 'GET_PENDING_APPROVALS':
+						if (!this.isExtensionPage(sender)) {
+							sendResponse({ success: false, error: '无权限' })
+							return false
+						}
+						sendResponse({
+							success: true,
+							data: requestQueueService.getPendingRequests()
+						})
+						return false
+					case 'RESOLVE_APPROVAL':
+						if (!this.isExtensionPage(sender)) {
+							sendResponse({ success: false, error: '无权限' })
+							return false
+						}
+						sendResponse({
+							success: message.data.approved
+								? requestQueueService.approve(
+										message.data.id,
+										message.data.result
+									)
+								: requestQueueService.reject(message.data.id)
+						})
+						return false
+					case 'REJECT_ALL_APPROVALS':
+						if (!this.isExtensionPage(sender)) {
+							sendResponse({ success: false, error: '无权限' })
+							return false
+						}
+						requestQueueService.rejectAll()
+						sendResponse({ success: true })
+						return false
+					case 'CREATE_WALLET':
+					case 'UNLOCK_WALLET':
+					case 'LOCK_WALLET':
+					case 'GET_WALLET_STATE':
+					case 'SELECT_ACCOUNT':
+					case 'ADD_HD_ACCOUNT':
+					case 'DISCOVER_ACCOUNTS':
+					case 'ADD_WATCH_ACCOUNT':
+					case 'REMOVE_WATCH_ACCOUNT':
+					case 'SEND_TRANSACTION':
+					case 'GET_UNLOCK_ATTEMPTS':
+					case 'CHANGE_PASSWORD':
+					case 'REVEAL_MNEMONIC':
+					case 'EXPORT_PRIVATE_KEY':
+					case 'EXPORT_KEYSTORE':
+					case 'CREATE_BACKUP':
+					case 'RESTORE_BACKUP':
+					case 'SCHEDULE_CLIPBOARD_CLEAR':
+						// 密钥相关操作仅允许扩展页面调用
+						if (!this.isExtensionPage(sender)) {
+							sendResponse({ success: false, error: '无权限' })
+							return false
+						}
+						this.handleKeyringMessage(message)
+							.then((data) =>
+								sendResponse({ success: true, data })
+							)
+							.catch((error) => {
+								console.error(
+									`处理钱包消息失败 (${message.type}):`,
+									error
+								)
+								sendResponse({
+									success: false,
+									error: (error as Error).message
+								})
+							})
 						return true
 					case 'CHECK_BACKGROUND_STATUS':
 						sendResponse({
@@ -127,8 +324,14 @@ class BackgroundService {
 			}
 		)
 
-		// 监听来自popup的消息
 		chrome.runtime.onConnect.addListener((port) => {
+			// 来自页面内容脚本的长连接
+			if (port.name === CONTENT_PORT_NAME) {
+				this.handleContentPort(port)
+				return
+			}
+
+			// 监听来自popup的消息
 			if (port.name === 'walletPopup') {
 				console.log('Popup已连接到后台服务')
 
@@ -148,8 +351,9 @@ class BackgroundService {
 
 					switch (message.type) {
 						case 'ACCOUNT_CHANGED':
-							this.accounts = message.data.accounts || []
-							console.log('账户已更新:', this.accounts)
+							this.handleAccountChanged(
+								message.data.accounts || []
+							)
 							break
 						case 'NETWORK_CHANGED':
 							console.log('网络已更新:', message.data.network)
@@ -170,29 +374,131 @@ class BackgroundService {
 				})
 			}
 		})
+
+		// 用户直接关闭确认窗口时，拒绝所有未处理的请求
+		chrome.windows.onRemoved.addListener((windowId) => {
+			if (windowId === this.approvalWindowId) {
+				this.approvalWindowId = null
+				requestQueueService.rejectAll()
+			}
+		})
+
+		// 发起请求的页面关闭后，其请求已无法返回
+		chrome.tabs.onRemoved.addListener((tabId) => {
+			requestQueueService.rejectByTab(tabId)
+		})
+
+		// 队列变化时刷新确认窗口，处理完毕后关闭窗口
+		requestQueueService.onChange((requests) => {
+			this.broadcastApprovals()
+			if (requests.length === 0 && this.approvalWindowId !== null) {
+				chrome.windows.remove(this.approvalWindowId).catch(() => {})
+				this.approvalWindowId = null
+			}
+		})
+
+		chrome.notifications.onButtonClicked.addListener((id, index) => {
+			this.notificationHandlers.get(id)?.(index)
+		})
+		chrome.notifications.onClosed.addListener((id) => {
+			this.notificationHandlers.delete(id)
+		})
 	}
 
-	// 处理Dapp连接初始化
-	private async handleDappConnectionInit(
+	// 处理内容脚本的长连接
+	private handleContentPort(port: chrome.runtime.Port) {
+		const dappOrigin = this.getSenderOrigin(port.sender)
+		if (!dappOrigin) {
+			port.disconnect()
+			return
+		}
+
+		this.contentPorts.add(port)
+
+		port.onMessage.addListener((message) => {
+			// 丢弃来源标识不正确的消息
+			if (message?.from !== CONTENT_MESSAGE_TAG) {
+				console.warn('丢弃来源未知的消息:', message)
+				return
+			}
+
+			switch (message.type) {
+				case 'INITIALIZE_DAPP_CONNECTION':
+					this.handleDappConnectionInit(dappOrigin, port)
+					break
+				case 'RPC_REQUEST':
+					this.handleRpcRequest(
+						message,
+						dappOrigin,
+						port.sender,
+						(response) =>
+							this.postToPort(port, {
+								type: 'RPC_RESPONSE',
+								requestId: message.requestId,
+								response
+							})
+					)
+					break
+				default:
+					console.warn('未知的内容脚本消息类型:', message.type)
+			}
+		})
+
+		port.onDisconnect.addListener(() => {
+			this.contentPorts.delete(port)
+		})
+	}
+
+	// 从消息发送方解析页面来源
+	private getSenderOrigin(sender?: chrome.runtime.MessageSender) {
+		if (sender?.origin) {
+			return sender.origin
+		}
+		try {
+			return sender?.tab?.url ? new URL(sender.tab.url).origin : null
+		} catch {
+			return null
+		}
+	}
+
+	// 判断消息是否来自本扩展的页面（popup 等），而非网页内容脚本
+	private isExtensionPage(sender: chrome.runtime.MessageSender) {
+		return sender.id === chrome.runtime.id && !sender.tab
+	}
+
+	// 处理已连接站点的管理操作，并只通知受影响的页面
+	private async handleSitePermissionMessage(
 		message: any,
 		sendResponse: Function
 	) {
 		try {
-			const dappOrigin = message.origin || 'unknown'
-			console.log(`Dapp连接初始化来自: ${dappOrigin}`)
-
-			// 记录Dapp连接
-			this.saveDappConnection(dappOrigin)
+			const { origin, accounts } = message.data || {}
+			let permittedAccounts: string[] = []
 
-			sendResponse({
-				success: true,
-				data: {
-					chainId: blockchainService.getCurrentNetwork().chainId,
-					isConnected: this.accounts.length > 0
+			if (message.type === 'UPDATE_SITE_ACCOUNTS') {
+				// 至少保留一个账户，取消全部账户应使用断开连接
+				if (!Array.isArray(accounts) || accounts.length === 0) {
+					throw new Error('请至少选择一个账户')
 				}
+				const permission =
+					await PermissionService.updatePermittedAccounts(
+						origin,
+						accounts
+					)
+				if (!permission) {
+					throw new Error('站点未连接')
+				}
+				permittedAccounts = permission.accounts
+			} else {
+				await PermissionService.revokePermission(origin)
+			}
+
+			this.notifyOrigin(origin, 'ACCOUNT_CHANGED', {
+				accounts: permittedAccounts
 			})
+			sendResponse({ success: true })
 		} catch (error) {
-			console.error('处理Dapp连接初始化失败:', error)
+			console.error('更新站点权限失败:', error)
 			sendResponse({
 				success: false,
 				error: (error as Error).message
@@ -200,96 +506,859 @@ class BackgroundService {
 		}
 	}
 
-	// 处理账户请求
-	private async handleRequestAccounts(message: any, sendResponse: Function) {
+	// 处理钱包会话相关消息，私钥始终只在后台使用
+	private async handleKeyringMessage(message: any): Promise<unknown> {
+		const data = message.data || {}
+
+		switch (message.type) {
+			case 'CREATE_WALLET': {
+				requestQueueService.rejectAll()
+				const state = await keyringController.createVault(
+					data.password,
+					data.keyrings
+				)
+				// 旧钱包的网站授权已清除
+				this.notifyContentScripts('DISCONNECT_ALL_DAPPS')
+				await this.handleAccountChanged(
+					state.selectedAddress ? [state.selectedAddress] : []
+				)
+				return state
+			}
+			case 'UNLOCK_WALLET': {
+				const state = await this.unlockWallet(data.password)
+				await this.handleAccountChanged(
+					state.selectedAddress ? [state.selectedAddress] : []
+				)
+				return state
+			}
+			case 'GET_UNLOCK_ATTEMPTS':
+				return UnlockAttemptService.getState()
+			case 'CHANGE_PASSWORD':
+				// 旧密码验证同样受解锁次数限制
+				await this.withPasswordAttempt(() =>
+					keyringController.changePassword(
+						data.oldPassword,
+						data.newPassword
+					)
+				)
+				return null
+			case 'REVEAL_MNEMONIC':
+				return this.withPasswordAttempt(() =>
+					keyringController.revealMnemonic(data.password)
+				)
+			case 'EXPORT_PRIVATE_KEY':
+				return this.withPasswordAttempt(() =>
+					keyringController.exportPrivateKey(
+						data.password,
+						data.address
+					)
+				)
+			case 'EXPORT_KEYSTORE':
+				return this.withPasswordAttempt(() =>
+					keyringController.exportKeystore(
+						data.password,
+						data.address,
+						data.keystorePassword
+					)
+				)
+			case 'CREATE_BACKUP':
+				return this.withPasswordAttempt(() =>
+					BackupService.createBackup(data.password)
+				)
+			case 'RESTORE_BACKUP': {
+				const state = await this.restoreBackup(
+					data.content,
+					data.password
+				)
+				await this.handleAccountChanged(
+					state.selectedAddress ? [state.selectedAddress] : []
+				)
+				return state
+			}
+			case 'LOCK_WALLET':
+				await this.lockWallet('用户手动锁定')
+				return keyringController.getState()
+			case 'GET_WALLET_STATE':
+				return keyringController.getState()
+			case 'SELECT_ACCOUNT': {
+				const address = await keyringController.selectAccount(
+					data.address
+				)
+				await this.handleAccountChanged([address])
+				return keyringController.getState()
+			}
+			case 'ADD_HD_ACCOUNT':
+				return keyringController.addHdAccount()
+			case 'DISCOVER_ACCOUNTS':
+				return keyringController.discoverHdAccounts()
+			case 'ADD_WATCH_ACCOUNT':
+				return keyringController.addWatchAccount(
+					data.address,
+					data.ensName
+				)
+			case 'REMOVE_WATCH_ACCOUNT': {
+				const state = await keyringController.removeWatchAccount(
+					data.address
+				)
+				if (state.selectedAddress) {
+					await this.handleAccountChanged([state.selectedAddress])
+				}
+				return state
+			}
+			case 'SCHEDULE_CLIPBOARD_CLEAR':
+				// 重复复制时重新计时
+				await chrome.alarms.create(CLIPBOARD_CLEAR_ALARM, {
+					when: Date.now() + SecurityService.CLIPBOARD_CLEAR_MS
+				})
+				return null
+			case 'SEND_TRANSACTION':
+				// 交易必须在页面显示的网络上签名和广播
+				if (
+					data.chainId !==
+					blockchainService.getCurrentNetwork().chainId
+				) {
+					throw new WalletError(
+						WalletErrorType.NETWORK_ERROR,
+						'当前网络已切换，请确认网络后重新发送交易'
+					)
+				}
+				return keyringController.sendTransaction(
+					data.from,
+					data.transaction,
+					data.token
+				)
+		}
+	}
+
+	// 解锁钱包
+	private async unlockWallet(password: string) {
+		return this.withPasswordAttempt(() =>
+			keyringController.unlock(password)
+		)
+	}
+
+	// 需要验证密码的操作：记录尝试结果，失败次数持久化保存，关闭 popup 不会重置
+	private async withPasswordAttempt<T>(action: () => Promise<T>) {
+		await UnlockAttemptService.assertCanAttempt()
+
 		try {
-			console.log('收到账户请求')
+			const result = await action()
+			await UnlockAttemptService.recordSuccess()
+			return result
+		} catch (error) {
+			if (
+				!(error instanceof WalletError) ||
+				error.type !== WalletErrorType.WRONG_PASSWORD
+			) {
+				throw error
+			}
 
-			// 检查是否有账户
-			if (this.accounts.length === 0) {
-				// 请求用户授权访问钱包
-				this.showAuthNotification(message.origin)
+			const attempts = await UnlockAttemptService.recordFailure()
+			const { wipeAfterFailedAttempts } =
+				await SettingsService.getSettings()
+			if (
+				wipeAfterFailedAttempts > 0 &&
+				attempts.failedCount >= wipeAfterFailedAttempts
+			) {
+				await this.wipeWallet()
+				throw new WalletError(
+					WalletErrorType.WRONG_PASSWORD,
+					'密码错误次数过多，钱包数据已清除，请使用助记词重新导入'
+				)
+			}
 
-				sendResponse({
-					success: false,
-					error: '请先解锁钱包'
-				})
-				return
+			const hints = [`密码错误（连续失败 ${attempts.failedCount} 次）`]
+			if (attempts.lockedUntil) {
+				const seconds = Math.ceil(
+					(attempts.lockedUntil - Date.now()) / 1000
+				)
+				hints.push(`请等待 ${seconds} 秒后再试`)
 			}
+			if (wipeAfterFailedAttempts > 0) {
+				hints.push(
+					`再失败 ${wipeAfterFailedAttempts - attempts.failedCount} 次将清除钱包数据`
+				)
+			}
+			throw new WalletError(
+				WalletErrorType.WRONG_PASSWORD,
+				hints.join('，')
+			)
+		}
+	}
 
-			// 返回账户列表
-			sendResponse({
-				success: true,
-				accounts: this.accounts
-			})
+	// 从备份文件恢复全部钱包数据，恢复后使用同一个密码解锁
+	private async restoreBackup(content: string, password: string) {
+		requestQueueService.rejectAll()
+		await this.lockWallet('从备份恢复')
+
+		// 备份密码错误不计入解锁失败次数，避免触发清除策略
+		await BackupService.restoreBackup(content, password)
+		console.log('钱包备份已恢复')
+
+		return keyringController.unlock(password)
+	}
+
+	// 清除全部钱包数据（解锁失败次数达到设置的上限）
+	private async wipeWallet() {
+		const permissions = await PermissionService.getAllPermissions()
+		Object.keys(permissions).forEach((dappOrigin) =>
+			this.notifyOrigin(dappOrigin, 'ACCOUNT_CHANGED', { accounts: [] })
+		)
+
+		requestQueueService.rejectAll()
+		await keyringController.reset()
+		await StorageService.clearWalletData()
+		this.accounts = []
+		console.warn('解锁失败次数达到上限，钱包数据已清除')
+
+		chrome.runtime.sendMessage({ type: 'WALLET_RESET' }).catch(() => {
+			// 没有打开的扩展页面
+		})
+	}
+
+	// 获取发送方页面当前的图标（连接建立时 favIconUrl 可能尚未加载）
+	private async getSenderFavicon(sender?: chrome.runtime.MessageSender) {
+		if (!sender?.tab?.id) {
+			return undefined
+		}
+		try {
+			const tab = await chrome.tabs.get(sender.tab.id)
+			return tab.favIconUrl || sender.tab.favIconUrl
+		} catch {
+			return sender.tab.favIconUrl
+		}
+	}
+
+	// 向内容脚本发送带来源标识的消息
+	private postToPort(port: chrome.runtime.Port, message: any) {
+		try {
+			port.postMessage({ ...message, from: BACKGROUND_MESSAGE_TAG })
 		} catch (error) {
-			console.error('处理账户请求失败:', error)
-			sendResponse({
-				success: false,
-				error: (error as Error).message
-			})
+			// 页面已关闭或连接已断开
+			this.contentPorts.delete(port)
 		}
 	}
 
-	// 处理交易发送
-	private async handleSendTransaction(message: any, sendResponse: Function) {
+	// 处理Dapp连接初始化
+	private async handleDappConnectionInit(
+		dappOrigin: string,
+		port: chrome.runtime.Port
+	) {
 		try {
-			const transaction = message.transaction
-			const dappOrigin = message.origin
+			console.log(`Dapp连接初始化来自: ${dappOrigin}`)
 
-			console.log(`收到来自${dappOrigin}的交易请求:`, transaction)
+			this.postToPort(port, {
+				type: 'CONNECTION_STATUS_CHANGED',
+				data: {
+					isConnected: true,
+					chainId: toHexChainId(
+						blockchainService.getCurrentNetwork().chainId
+					)
+				}
+			})
+		} catch (error) {
+			console.error('处理Dapp连接初始化失败:', error)
+		}
+	}
 
-			// 验证交易参数
-			if (!transaction.to || !transaction.value) {
-				throw new Error('交易参数不完整')
-			}
+	// 处理 EIP-1193 RPC 请求，结果通过 sendResponse 回传给对应的请求ID
+	private async handleRpcRequest(
+		message: any,
+		dappOrigin: string,
+		sender: chrome.runtime.MessageSender | undefined,
+		sendResponse: (response: RpcResponse) => void
+	) {
+		try {
+			PermissionService.recordActivity(dappOrigin).catch((error) =>
+				console.error('记录站点活跃时间失败:', error)
+			)
 
-			// 显示交易确认通知
-			this.showTransactionConfirmation(
-				transaction,
+			const result = await this.dispatchRpcMethod(
+				message.method,
+				message.params || [],
 				dappOrigin,
-				sendResponse
+				sender
 			)
-
-			// 注意：这里不立即发送响应，而是在用户确认或拒绝后发送
+			sendResponse({ success: true, result })
 		} catch (error) {
-			console.error('处理交易请求失败:', error)
+			console.error(`处理RPC请求失败 (${message.method}):`, error)
 			sendResponse({
 				success: false,
-				error: (error as Error).message
+				error: ProviderRpcError.from(error).serialize()
 			})
 		}
 	}
 
+	// 按方法名分发 RPC 请求
+	private async dispatchRpcMethod(
+		method: string,
+		params: any[],
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	): Promise<unknown> {
+		const network = blockchainService.getCurrentNetwork()
+
+		// 需要授权的方法必须先取得 eth_accounts 权限
+		if (RESTRICTED_RPC_METHODS.includes(method)) {
+			await this.assertPermitted(dappOrigin)
+		}
+
+		switch (method) {
+			case 'eth_requestAccounts':
+				return this.handleRequestAccounts(dappOrigin, sender)
+			case 'eth_accounts':
+				return this.getAccountsForOrigin(dappOrigin)
+			case 'wallet_requestPermissions':
+				return this.handleRequestPermissions(
+					params[0],
+					dappOrigin,
+					sender
+				)
+			case 'wallet_getPermissions':
+				return PermissionService.toWeb3WalletPermissions(
+					await PermissionService.getPermission(dappOrigin)
+				)
+			case 'wallet_revokePermissions':
+				return this.handleRevokePermissions(params[0], dappOrigin)
+			case 'eth_chainId':
+				return toHexChainId(network.chainId)
+			case 'net_version':
+				return network.chainId.toString()
+			case 'eth_sendTransaction':
+				return this.handleSendTransaction(params[0], dappOrigin, sender)
+			case 'personal_sign':
+				return this.handleSignMessage(params, dappOrigin, sender)
+			case 'wallet_switchEthereumChain':
+				return this.handleSwitchChain(params[0], dappOrigin, sender)
+			case 'wallet_watchAsset':
+				return this.handleWatchAsset(params, dappOrigin, sender)
+			default:
+				if (READONLY_RPC_METHODS.includes(method)) {
+					return blockchainService
+						.getCurrentProvider()
+						.send(method, params)
+				}
+				throw new ProviderRpcError(
+					ProviderErrorCode.UNSUPPORTED_METHOD,
+					`不支持的方法: ${method}`
+				)
+		}
+	}
+
+	// 来源可见的账户，当前选中的账户排在最前；钱包锁定时不暴露账户
+	private async getAccountsForOrigin(dappOrigin: string) {
+		if (!keyringController.isUnlocked()) {
+			return []
+		}
+		const accounts =
+			await PermissionService.getPermittedAccounts(dappOrigin)
+		return this.sortBySelectedAccount(accounts)
+	}
+
+	private sortBySelectedAccount(accounts: string[]) {
+		const selected = this.accounts[0]?.toLowerCase()
+		return [...accounts].sort(
+			(a, b) =>
+				Number(b.toLowerCase() === selected) -
+				Number(a.toLowerCase() === selected)
+		)
+	}
+
+	// 处理钱包切换账户：通知有权访问新账户的来源
+	private async handleAccountChanged(accounts: string[]) {
+		this.accounts = accounts
+		console.log('账户已更新:', this.accounts)
+
+		const selected = accounts[0]?.toLowerCase()
+		if (!selected) {
+			return
+		}
+
+		const permissions = await PermissionService.getAllPermissions()
+		Object.values(permissions).forEach((permission) => {
+			const permitted = permission.accounts.some(
+				(account) => account.toLowerCase() === selected
+			)
+			if (permitted) {
+				this.notifyOrigin(permission.origin, 'ACCOUNT_CHANGED', {
+					accounts: this.sortBySelectedAccount(permission.accounts)
+				})
+			}
+		})
+	}
+
+	// 观察账户可以暴露给 Dapp 读取，但不能签名
+	private assertCanSign(address: string) {
+		if (keyringController.isWatchOnly(address)) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				'观察账户只读，不能签名或发送交易'
+			)
+		}
+	}
+
+	// 检查来源是否已获得账户权限
+	private async assertPermitted(dappOrigin: string) {
+		const accounts =
+			await PermissionService.getPermittedAccounts(dappOrigin)
+		if (accounts.length === 0) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				'请先调用 eth_requestAccounts 连接钱包'
+			)
+		}
+		return accounts
+	}
+
+	// 处理账户请求
+	private async handleRequestAccounts(
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	) {
+		console.log('收到账户请求')
+
+		// 已授权的来源直接返回授权账户，钱包锁定时先在确认窗口中解锁
+		const permittedAccounts =
+			await PermissionService.getPermittedAccounts(dappOrigin)
+		if (permittedAccounts.length > 0) {
+			if (!keyringController.isUnlocked()) {
+				const result = await this.requestApproval(
+					'connect',
+					dappOrigin,
+					{
+						accounts: permittedAccounts,
+						selectedAccounts: permittedAccounts
+					},
+					sender
+				)
+				await PermissionService.updatePermittedAccounts(
+					dappOrigin,
+					this.getSelectedAccounts(result, permittedAccounts)
+				)
+			}
+			return this.getAccountsForOrigin(dappOrigin)
+		}
+
+		const permission = await this.requestAccountsPermission(
+			dappOrigin,
+			sender
+		)
+		return permission.accounts
+	}
+
+	// 处理 wallet_requestPermissions
+	private async handleRequestPermissions(
+		requestedPermissions: Record<string, unknown>,
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	) {
+		this.validatePermissionsParam(requestedPermissions)
+
+		const permission = await this.requestAccountsPermission(
+			dappOrigin,
+			sender
+		)
+		return PermissionService.toWeb3WalletPermissions(permission)
+	}
+
+	// 处理 wallet_revokePermissions
+	private async handleRevokePermissions(
+		permissions: Record<string, unknown>,
+		dappOrigin: string
+	) {
+		this.validatePermissionsParam(permissions)
+
+		await PermissionService.revokePermission(dappOrigin)
+		this.notifyOrigin(dappOrigin, 'ACCOUNT_CHANGED', { accounts: [] })
+		return null
+	}
+
+	// 目前仅支持 eth_accounts 权限
+	private validatePermissionsParam(permissions: Record<string, unknown>) {
+		if (
+			!permissions ||
+			typeof permissions !== 'object' ||
+			Object.keys(permissions).length === 0
+		) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				'权限参数无效'
+			)
+		}
+
+		const unsupported = Object.keys(permissions).filter(
+			(name) => name !== PermissionService.ETH_ACCOUNTS
+		)
+		if (unsupported.length > 0) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				`不支持的权限: ${unsupported.join(', ')}`
+			)
+		}
+	}
+
+	// 请求用户授权来源访问账户，用户确认后保存授权记录
+	private async requestAccountsPermission(
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	) {
+		// 检查是否有账户
+		if (this.accounts.length === 0) {
+			// 请求用户授权访问钱包
+			this.showAuthNotification(dappOrigin)
+
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				'请先解锁钱包'
+			)
+		}
+
+		// 用户可以从钱包的全部账户中选择，默认选中当前账户
+		const accounts = Array.from(
+			new Set([
+				...this.accounts,
+				...keyringController.getState().accounts
+			])
+		)
+		const result = await this.requestApproval(
+			'connect',
+			dappOrigin,
+			{ accounts, selectedAccounts: [...this.accounts] },
+			sender
+		)
+
+		const permission = await PermissionService.grantPermission(
+			dappOrigin,
+			this.getSelectedAccounts(result, accounts),
+			await this.getSenderFavicon(sender)
+		)
+		this.notifyOrigin(dappOrigin, 'ACCOUNT_CHANGED', {
+			accounts: permission.accounts
+		})
+		return permission
+	}
+
+	// 连接确认窗口的结果：用户选择的账户，只保留提供选择的账户
+	private getSelectedAccounts(result: unknown, accounts: string[]) {
+		const selectedAccounts = Array.isArray(result)
+			? accounts.filter((address) =>
+					result.some(
+						(item) =>
+							typeof item === 'string' &&
+							item.toLowerCase() === address.toLowerCase()
+					)
+				)
+			: []
+		if (selectedAccounts.length === 0) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.USER_REJECTED,
+				'未选择要连接的账户'
+			)
+		}
+		return selectedAccounts
+	}
+
+	// 处理交易发送
+	private async handleSendTransaction(
+		transaction: any,
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	) {
+		console.log(`收到来自${dappOrigin}的交易请求:`, transaction)
+
+		// 验证交易参数
+		if (!transaction || !transaction.to) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				'交易参数不完整'
+			)
+		}
+
+		// 发送方必须是该来源已授权的账户
+		const permittedAccounts =
+			await PermissionService.getPermittedAccounts(dappOrigin)
+		if (
+			transaction.from &&
+			!permittedAccounts.some(
+				(account) =>
+					account.toLowerCase() === transaction.from.toLowerCase()
+			)
+		) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				'交易发送方未获授权'
+			)
+		}
+
+		// 用户在确认窗口中确认并选择 Gas 后，由后台签名发送
+		const from = transaction.from || permittedAccounts[0]
+		this.assertCanSign(from)
+		const { gasLimit, gasPrice } = (await this.requestApproval(
+			'transaction',
+			dappOrigin,
+			{ transaction, from },
+			sender
+		)) as { gasLimit: string; gasPrice: string }
+
+		return keyringController.sendTransaction(from, {
+			...toTransactionRequest(transaction),
+			gasLimit,
+			gasPrice
+		})
+	}
+
 	// 处理消息签名
-	private async handleSignMessage(message: any, sendResponse: Function) {
-		try {
-			const messageToSign = message.message
-			const dappOrigin = message.origin
+	private async handleSignMessage(
+		params: any[],
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	) {
+		const [messageToSign, address] = params
+		if (typeof messageToSign !== 'string') {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				'签名消息格式无效'
+			)
+		}
+
+		// 签名账户必须是该来源已授权的账户
+		const permittedAccounts =
+			await PermissionService.getPermittedAccounts(dappOrigin)
+		const signer = permittedAccounts.find(
+			(account) => account.toLowerCase() === address?.toLowerCase()
+		)
+		if (!signer) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				'签名账户未获授权'
+			)
+		}
+
+		this.assertCanSign(signer)
+		console.log(`收到来自${dappOrigin}的签名请求:`, messageToSign)
+
+		// 用户在确认窗口中确认后，由后台签名
+		await this.requestApproval(
+			'sign',
+			dappOrigin,
+			{ message: messageToSign, from: signer },
+			sender
+		)
+		return keyringController.signMessage(signer, messageToSign)
+	}
 
-			console.log(`收到来自${dappOrigin}的签名请求:`, messageToSign)
+	// 处理 wallet_watchAsset（EIP-747），用户确认后为当前账户添加代币
+	private async handleWatchAsset(
+		params: any,
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	) {
+		// 规范要求参数为对象，兼容部分 Dapp 以数组形式传入
+		const { type, options } =
+			(Array.isArray(params) ? params[0] : params) || {}
+		if (type !== 'ERC20') {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				`不支持的资产类型: ${type}`
+			)
+		}
+		if (!options?.address || !ethers.isAddress(options.address)) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				'代币合约地址无效'
+			)
+		}
 
-			// 显示签名确认通知
-			this.showSignConfirmation(messageToSign, dappOrigin, sendResponse)
+		const account = this.accounts[0]
+		if (!account) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				'请先解锁钱包'
+			)
+		}
 
-			// 注意：这里不立即发送响应，而是在用户确认或拒绝后发送
+		// 以链上信息为准，Dapp 提供的精度不一致时拒绝
+		let metadata: Awaited<ReturnType<typeof tokenService.getTokenMetadata>>
+		try {
+			metadata = await tokenService.getTokenMetadata(options.address)
 		} catch (error) {
-			console.error('处理签名请求失败:', error)
-			sendResponse({
-				success: false,
-				error: (error as Error).message
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				(error as Error).message
+			)
+		}
+		if (
+			options.decimals !== undefined &&
+			Number(options.decimals) !== metadata.decimals
+		) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				`代币精度与链上不一致（链上为 ${metadata.decimals}）`
+			)
+		}
+
+		const symbol =
+			typeof options.symbol === 'string' && options.symbol
+				? options.symbol
+				: metadata.symbol
+		if (!symbol || symbol.length > MAX_TOKEN_SYMBOL_LENGTH) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				`代币符号不能为空且不能超过 ${MAX_TOKEN_SYMBOL_LENGTH} 个字符`
+			)
+		}
+
+		const token: TokenInfo = {
+			chainId: blockchainService.getCurrentNetwork().chainId,
+			address: ethers.getAddress(options.address),
+			symbol,
+			name: metadata.name,
+			decimals: metadata.decimals,
+			image: typeof options.image === 'string' ? options.image : undefined
+		}
+
+		await this.requestApproval(
+			'watchAsset',
+			dappOrigin,
+			{ token, account },
+			sender
+		)
+		await tokenService.addToken(account, token)
+		return true
+	}
+
+	// 加入确认队列并打开确认窗口，用户处理后完成对应的请求
+	private requestApproval(
+		type: ApprovalType,
+		origin: string,
+		payload: any,
+		sender?: chrome.runtime.MessageSender
+	): Promise<unknown> {
+		const result = requestQueueService.enqueue(
+			type,
+			origin,
+			payload,
+			sender?.tab?.id
+		)
+		this.openApprovalWindow()
+		return result
+	}
+
+	// 打开确认窗口，已打开时将其置于前台
+	private async openApprovalWindow() {
+		if (this.approvalWindowId !== null) {
+			try {
+				await chrome.windows.update(this.approvalWindowId, {
+					focused: true
+				})
+				return
+			} catch {
+				this.approvalWindowId = null
+			}
+		}
+
+		// 同时到达的多个请求共用一个窗口
+		if (this.isOpeningApprovalWindow) {
+			return
+		}
+
+		this.isOpeningApprovalWindow = true
+		try {
+			const approvalWindow = await chrome.windows.create({
+				url: chrome.runtime.getURL('tabs/approval.html'),
+				type: 'popup',
+				width: 440,
+				height: 680,
+				focused: true
 			})
+			this.approvalWindowId = approvalWindow.id ?? null
+		} finally {
+			this.isOpeningApprovalWindow = false
 		}
 	}
 
+	// 通知确认窗口刷新队列
+	private broadcastApprovals() {
+		chrome.runtime
+			.sendMessage({
+				type: 'APPROVALS_UPDATED',
+				data: requestQueueService.getPendingRequests()
+			})
+			.catch(() => {
+				// 确认窗口尚未打开时没有接收方
+			})
+	}
+
+	// 处理链切换请求，用户确认后切换钱包的签名网络
+	private async handleSwitchChain(
+		params: { chainId?: string },
+		dappOrigin: string,
+		sender?: chrome.runtime.MessageSender
+	) {
+		if (!params?.chainId) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				'缺少 chainId 参数'
+			)
+		}
+		// EIP-3326 要求 chainId 为 0x 开头的十六进制字符串
+		if (
+			typeof params.chainId !== 'string' ||
+			!/^0x[0-9a-fA-F]+$/.test(params.chainId)
+		) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				`无效的 chainId: ${params.chainId}`
+			)
+		}
+
+		const requestedChainId = toHexChainId(params.chainId)
+		const networkKey = Object.keys(NETWORKS).find(
+			(key) => toHexChainId(NETWORKS[key].chainId) === requestedChainId
+		)
+		if (!networkKey) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNRECOGNIZED_CHAIN,
+				`未添加的链: ${requestedChainId}`
+			)
+		}
+
+		const currentNetwork = blockchainService.getCurrentNetwork()
+		if (toHexChainId(currentNetwork.chainId) !== requestedChainId) {
+			await this.requestApproval(
+				'switchChain',
+				dappOrigin,
+				{ from: currentNetwork, to: NETWORKS[networkKey] },
+				sender
+			)
+			await blockchainService.switchNetwork(networkKey)
+			this.notifyContentScripts('NETWORK_CHANGED', {
+				chainId: requestedChainId
+			})
+		}
+
+		return null
+	}
+
 	// 处理连接状态请求
-	private handleGetConnectionStatus(message: any, sendResponse: Function) {
+	private async handleGetConnectionStatus(
+		sender: chrome.runtime.MessageSender,
+		sendResponse: Function
+	) {
 		try {
+			// 来自网页的请求只能看到该来源已授权的账户
+			const dappOrigin = sender.tab ? this.getSenderOrigin(sender) : null
+			const accounts = sender.tab
+				? dappOrigin
+					? await this.getAccountsForOrigin(dappOrigin)
+					: []
+				: this.accounts
+
 			sendResponse({
 				success: true,
 				data: {
 					isRunning: this.isRunning,
-					accounts: this.accounts,
+					accounts,
 					chainId: blockchainService.getCurrentNetwork().chainId
 				}
 			})
@@ -316,96 +1385,10 @@ class BackgroundService {
 		})
 
 		// 监听通知按钮点击
-		chrome.notifications.onButtonClicked.addListener((id, index) => {
-			if (id === notificationId) {
-				if (index === 0) {
-					// 授权，打开钱包popup让用户解锁
-					chrome.action.openPopup()
-				}
-			}
-		})
-	}
-
-	// 显示交易确认通知
-	private showTransactionConfirmation(
-		transaction: any,
-		dappOrigin: string,
-		sendResponse: Function
-	) {
-		const notificationId = `tx-${this.notificationIdCounter++}`
-		const amount = ethers.formatEther(transaction.value || '0')
-		const target = transaction.to.substring(0, 8) + '...'
-
-		chrome.notifications.create(notificationId, {
-			type: 'basic',
-			iconUrl: 'gen-assets/icon128.plasmo.png',
-			title: '交易确认',
-			message: `${new URL(dappOrigin).hostname} 请求发送 ${amount} ETH 到 ${target}`,
-			buttons: [{ title: '确认' }, { title: '拒绝' }],
-			priority: 1
-		})
-
-		// 监听通知按钮点击
-		chrome.notifications.onButtonClicked.addListener((id, index) => {
-			if (id === notificationId) {
-				if (index === 0) {
-					// 打开popup进行交易确认
-					chrome.action.openPopup()
-					// 存储待处理交易信息
-					StorageService.setItem('pendingTransaction', {
-						transaction,
-						dappOrigin,
-						sendResponse
-					})
-				} else {
-					// 拒绝交易
-					sendResponse({
-						success: false,
-						error: '用户拒绝了交易'
-					})
-				}
-			}
-		})
-	}
-
-	// 显示签名确认通知
-	private showSignConfirmation(
-		message: string,
-		dappOrigin: string,
-		sendResponse: Function
-	) {
-		const notificationId = `sign-${this.notificationIdCounter++}`
-		const displayMessage =
-			message.length > 50 ? message.substring(0, 50) + '...' : message
-
-		chrome.notifications.create(notificationId, {
-			type: 'basic',
-			iconUrl: 'gen-assets/icon128.plasmo.png',
-			title: '签名确认',
-			message: `${new URL(dappOrigin).hostname} 请求签名消息: ${displayMessage}`,
-			buttons: [{ title: '确认' }, { title: '拒绝' }],
-			priority: 1
-		})
-
-		// 监听通知按钮点击
-		chrome.notifications.onButtonClicked.addListener((id, index) => {
-			if (id === notificationId) {
-				if (index === 0) {
-					// 打开popup进行签名确认
-					chrome.action.openPopup()
-					// 存储待处理签名信息
-					StorageService.setItem('pendingSignMessage', {
-						message,
-						dappOrigin,
-						sendResponse
-					})
-				} else {
-					// 拒绝签名
-					sendResponse({
-						success: false,
-						error: '用户拒绝了签名'
-					})
-				}
+		this.notificationHandlers.set(notificationId, (index) => {
+			if (index === 0) {
+				// 授权，打开钱包popup让用户解锁
+				chrome.action.openPopup()
 			}
 		})
 	}
@@ -413,49 +1396,32 @@ class BackgroundService {
 	// 显示交易完成通知
 	private showTransactionNotification(transaction: TransactionRecord) {
 		const notificationId = `tx-complete-${transaction.hash.substring(0, 8)}`
-		const amount = ethers.formatEther(transaction.value)
+		// 代币转账的 value 为 0，使用记录中按代币精度格式化的数量
+		const amount = transaction.token
+			? `${transaction.token.amount} ${transaction.token.symbol}`
+			: `${ethers.formatEther(transaction.value)} ETH`
 
 		chrome.notifications.create(notificationId, {
 			type: 'basic',
 			iconUrl: 'gen-assets/icon128.plasmo.png',
 			title: '交易已确认',
-			message: `您的 ${amount} ETH 交易已成功确认`,
+			message: `您的 ${amount} 交易已成功确认`,
 			buttons: [{ title: '查看详情' }],
 			priority: 1
 		})
 
 		// 监听通知按钮点击
-		chrome.notifications.onButtonClicked.addListener((id) => {
-			if (id === notificationId) {
-				// 打开区块浏览器查看交易详情
-				const explorerUrl = `${blockchainService.getCurrentNetwork().blockExplorerUrl}/tx/${transaction.hash}`
-				chrome.tabs.create({ url: explorerUrl })
-			}
+		this.notificationHandlers.set(notificationId, () => {
+			// 打开区块浏览器查看交易详情
+			const explorerUrl = `${blockchainService.getCurrentNetwork().blockExplorerUrl}/tx/${transaction.hash}`
+			chrome.tabs.create({ url: explorerUrl })
 		})
 	}
 
-	// 保存Dapp连接信息
-	private async saveDappConnection(origin: string) {
-		try {
-			const connections =
-				(await StorageService.getItem<string[]>('dappConnections')) ||
-				[]
-			if (!connections.includes(origin)) {
-				connections.push(origin)
-				await StorageService.setItem('dappConnections', connections)
-			}
-		} catch (error) {
-			console.error('保存Dapp连接信息失败:', error)
-		}
-	}
-
-	// 获取已连接的Dapp列表
+	// 获取已授权的Dapp列表
 	private async getConnectedDapps(): Promise<string[]> {
 		try {
-			return (
-				(await StorageService.getItem<string[]>('dappConnections')) ||
-				[]
-			)
+			return Object.keys(await PermissionService.getAllPermissions())
 		} catch (error) {
 			console.error('获取Dapp连接列表失败:', error)
 			return []
@@ -465,7 +1431,7 @@ class BackgroundService {
 	// 断开所有Dapp连接
 	private async disconnectAllDapps() {
 		try {
-			await StorageService.removeItem('dappConnections')
+			await PermissionService.revokeAllPermissions()
 			this.notifyContentScripts('DISCONNECT_ALL_DAPPS')
 			console.log('已断开所有Dapp连接')
 		} catch (error) {
@@ -475,24 +1441,17 @@ class BackgroundService {
 
 	// 通知所有内容脚本
 	private notifyContentScripts(type: string, data: any = {}) {
-		chrome.tabs.query({}, (tabs) => {
-			tabs.forEach((tab) => {
-				if (tab.id) {
-					chrome.tabs.sendMessage(
-						tab.id,
-						{
-							type,
-							data
-						},
-						() => {
-							// 忽略错误，因为可能有些标签页没有内容脚本
-							if (chrome.runtime.lastError) {
-								// console.log('发送消息到标签页失败:', chrome.runtime.lastError.message)
-							}
-						}
-					)
-				}
-			})
+		this.contentPorts.forEach((port) => {
+			this.postToPort(port, { type, data })
+		})
+	}
+
+	// 通知指定来源的内容脚本
+	private notifyOrigin(dappOrigin: string, type: string, data: any = {}) {
+		this.contentPorts.forEach((port) => {
+			if (this.getSenderOrigin(port.sender) === dappOrigin) {
+				this.postToPort(port, { type, data })
+			}
 		})
 	}
 
@@ -0,0 +1,470 @@
+import type { PlasmoCSConfig } from 'plasmo'
+
+import {
+	CONTENT_MESSAGE_TAG,
+	INPAGE_MESSAGE_TAG,
+	WALLET_PROVIDER_INFO
+} from '~config/provider'
+import {
+	ProviderErrorCode,
+	ProviderRpcError,
+	type RequestArguments,
+	type RpcResponse
+} from '~types/provider'
+import { toHexChainId } from '~utils/utils'
+
+// 在页面主环境（MAIN world）中运行，页面脚本才能访问 window.ethereum
+export const config: PlasmoCSConfig = {
+	matches: ['<all_urls>'],
+	world: 'MAIN',
+	run_at: 'document_start'
+}
+
+console.log('InpageProvider loaded')
+
+// 等待后台响应的请求
+interface PendingRequest {
+	method: string
+	resolve: (result: unknown) => void
+	reject: (error: ProviderRpcError) => void
+}
+
+/**
+ * InpageProvider类在页面中提供符合 EIP-1193 的 provider
+ * 通过 EIP-6963 公布给 Dapp，可选注入 window.ethereum
+ * 所有请求通过 window.postMessage 交给内容脚本中转到后台
+ */
+class InpageProvider {
+	// 暴露给页面的 provider 对象
+	private provider: any = null
+	// EIP-6963 要求每次页面会话使用唯一的 UUID
+	private readonly providerUuid = crypto.randomUUID()
+	private legacyInjected = false
+	// 保存事件监听器
+	private eventListeners: Map<string, Function[]> = new Map()
+	// 保存当前页面的连接状态
+	private connectionState: 'disconnected' | 'connected' = 'disconnected'
+	// 请求ID -> 待完成的 Promise
+	private pendingRequests: Map<number, PendingRequest> = new Map()
+	private nextRequestId = 1
+	// 当前链和账户状态
+	private chainId: string | null = null
+	private accounts: string[] = []
+
+	constructor() {
+		this.initialize()
+	}
+
+	/**
+	 * 初始化 inpage provider
+	 */
+	private initialize(): void {
+		console.log('钱包扩展：初始化 inpage provider')
+
+		// 先监听内容脚本转发的消息，再创建provider
+		this.setupMessageListener()
+
+		this.provider = this.createProvider()
+
+		// 通过 EIP-6963 公布 provider，与其他钱包共存
+		this.setupProviderDiscovery()
+
+		// 询问内容脚本是否需要注入 window.ethereum
+		this.postToContentScript({ type: 'REQUEST_PROVIDER_CONFIG' })
+
+		// 发送Dapp连接初始化消息，后台回复 CONNECTION_STATUS_CHANGED 后触发 connect 事件
+		this.postToContentScript({
+			type: 'INITIALIZE_DAPP_CONNECTION',
+			hostname: window.location.hostname
+		})
+	}
+
+	/**
+	 * 创建 EIP-1193 provider 对象
+	 */
+	private createProvider(): any {
+		const self = this
+		return {
+			// 基础信息
+			isMetaMask: false,
+			isConnected: () => this.connectionState === 'connected',
+			get chainId() {
+				return self.chainId
+			},
+			get networkVersion() {
+				return self.chainId
+					? parseInt(self.chainId, 16).toString()
+					: null
+			},
+			get selectedAddress() {
+				return self.accounts[0] || null
+			},
+
+			// 事件监听
+			on: this.on.bind(this),
+			addListener: this.on.bind(this),
+			once: this.once.bind(this),
+			removeListener: this.removeListener.bind(this),
+			off: this.removeListener.bind(this),
+			removeAllListeners: this.removeAllListeners.bind(this),
+
+			// RPC方法
+			request: this.request.bind(this),
+			send: this.send.bind(this),
+			sendAsync: this.sendAsync.bind(this),
+			enable: () => this.request({ method: 'eth_requestAccounts' })
+		}
+	}
+
+	/**
+	 * EIP-6963：响应 requestProvider 事件并主动公布一次
+	 */
+	private setupProviderDiscovery(): void {
+		const announce = () => {
+			window.dispatchEvent(
+				new CustomEvent('eip6963:announceProvider', {
+					detail: Object.freeze({
+						info: {
+							uuid: this.providerUuid,
+							...WALLET_PROVIDER_INFO
+						},
+						provider: this.provider
+					})
+				})
+			)
+		}
+
+		window.addEventListener('eip6963:requestProvider', announce)
+		announce()
+	}
+
+	/**
+	 * 兼容模式：注入provider到window.ethereum（需在设置中开启）
+	 */
+	private injectLegacyProvider(): void {
+		if (this.legacyInjected) return
+
+		// 已有其他钱包占用时不覆盖，Dapp 仍可通过 EIP-6963 选择本钱包
+		if ((window as any).ethereum) {
+			console.log('钱包扩展：已检测到现有ethereum provider，跳过注入')
+			return
+		}
+
+		// 设置为只读属性
+		Object.defineProperty(window, 'ethereum', {
+			value: this.provider,
+			writable: false,
+			enumerable: true,
+			configurable: true
+		})
+		this.legacyInjected = true
+
+		console.log('钱包扩展：已成功注入ethereum provider')
+		window.dispatchEvent(new Event('ethereum#initialized'))
+	}
+
+	/**
+	 * 设置消息监听器，只接收内容脚本转发的消息
+	 */
+	private setupMessageListener(): void {
+		window.addEventListener('message', (event) => {
+			// 丢弃来源标识不正确的消息
+			if (
+				event.source !== window ||
+				event.origin !== window.location.origin ||
+				event.data?.from !== CONTENT_MESSAGE_TAG
+			) {
+				return
+			}
+
+			const { type, data, requestId, response } = event.data
+
+			switch (type) {
+				case 'RPC_RESPONSE':
+					this.settleRequest(requestId, response)
+					break
+				case 'PROVIDER_CONFIG':
+					if (data?.injectLegacyProvider) {
+						this.injectLegacyProvider()
+					}
+					break
+				case 'ACCOUNT_CHANGED':
+					this.handleAccountChanged(data)
+					break
+				case 'NETWORK_CHANGED':
+					this.handleNetworkChanged(data)
+					break
+				case 'CONNECTION_STATUS_CHANGED':
+					this.handleConnectionStatusChanged(data)
+					break
+				case 'DISCONNECT_ALL_DAPPS':
+					this.updateAccounts([])
+					break
+			}
+		})
+	}
+
+	/**
+	 * 向内容脚本发送消息（由内容脚本转发到后台）
+	 */
+	private postToContentScript(message: any): void {
+		window.postMessage(
+			{
+				...message,
+				from: INPAGE_MESSAGE_TAG
+			},
+			window.location.origin
+		)
+	}
+
+	/**
+	 * 处理账户变更
+	 */
+	private handleAccountChanged(data: any): void {
+		const accounts: string[] = Array.isArray(data?.accounts)
+			? data.accounts
+			: data?.address
+				? [data.address]
+				: []
+		this.updateAccounts(accounts)
+	}
+
+	/**
+	 * 处理网络变更
+	 */
+	private handleNetworkChanged(data: any): void {
+		if (data?.chainId === undefined || data?.chainId === null) {
+			return
+		}
+		const chainId = toHexChainId(data.chainId)
+		if (this.connectionState === 'disconnected') {
+			this.handleConnected(chainId)
+			return
+		}
+		if (chainId !== this.chainId) {
+			this.chainId = chainId
+			this.emit('chainChanged', chainId)
+		}
+	}
+
+	/**
+	 * 处理连接状态变更
+	 */
+	private handleConnectionStatusChanged(data: any): void {
+		if (data?.isConnected) {
+			this.handleConnected(
+				data.chainId ? toHexChainId(data.chainId) : this.chainId
+			)
+		} else {
+			this.handleDisconnected()
+		}
+	}
+
+	/**
+	 * 与后台建立连接，触发 connect 事件
+	 */
+	private handleConnected(chainId: string | null): void {
+		if (!chainId) return
+		const wasConnected = this.connectionState === 'connected'
+		this.connectionState = 'connected'
+
+		if (!wasConnected) {
+			this.chainId = chainId
+			this.emit('connect', { chainId })
+		} else if (chainId !== this.chainId) {
+			this.chainId = chainId
+			this.emit('chainChanged', chainId)
+		}
+	}
+
+	/**
+	 * 与后台断开连接，拒绝所有未完成的请求并触发 disconnect 事件
+	 */
+	private handleDisconnected(): void {
+		if (this.connectionState === 'disconnected') return
+		this.connectionState = 'disconnected'
+
+		const error = new ProviderRpcError(
+			ProviderErrorCode.DISCONNECTED,
+			'钱包已断开连接'
+		)
+		this.pendingRequests.forEach((pending) => pending.reject(error))
+		this.pendingRequests.clear()
+		this.emit('disconnect', error)
+	}
+
+	/**
+	 * 账户列表变化时触发 accountsChanged 事件
+	 */
+	private updateAccounts(accounts: string[]): void {
+		const normalized = accounts.map((account) => account.toLowerCase())
+		const changed =
+			normalized.length !== this.accounts.length ||
+			normalized.some((account, i) => account !== this.accounts[i])
+
+		if (changed) {
+			this.accounts = normalized
+			this.emit('accountsChanged', [...normalized])
+		}
+	}
+
+	/**
+	 * 根据后台响应完成对应的请求
+	 */
+	private settleRequest(requestId: number, response?: RpcResponse): void {
+		const pending = this.pendingRequests.get(requestId)
+		if (!pending) return
+		this.pendingRequests.delete(requestId)
+
+		if (!response) {
+			pending.reject(
+				new ProviderRpcError(
+					ProviderErrorCode.DISCONNECTED,
+					'未收到钱包响应'
+				)
+			)
+			return
+		}
+
+		if (!response.success) {
+			pending.reject(ProviderRpcError.from(response.error))
+			return
+		}
+
+		// 账户相关请求成功后同步本地状态
+		if (
+			pending.method === 'eth_requestAccounts' ||
+			pending.method === 'eth_accounts'
+		) {
+			this.updateAccounts((response.result as string[]) || [])
+		}
+		if (pending.method === 'eth_chainId' && response.result) {
+			this.handleConnected(response.result as string)
+		}
+
+		pending.resolve(response.result)
+	}
+
+	// 事件系统实现
+	private on(event: string, listener: Function): any {
+		if (!this.eventListeners.has(event)) {
+			this.eventListeners.set(event, [])
+		}
+		this.eventListeners.get(event)?.push(listener)
+		return this.provider
+	}
+
+	private once(event: string, listener: Function): any {
+		const wrapper = (...args: any[]) => {
+			this.removeListener(event, wrapper)
+			listener(...args)
+		}
+		return this.on(event, wrapper)
+	}
+
+	private removeListener(event: string, listener: Function): any {
+		const listeners = this.eventListeners.get(event)
+		if (listeners) {
+			const index = listeners.indexOf(listener)
+			if (index > -1) {
+				listeners.splice(index, 1)
+			}
+		}
+		return this.provider
+	}
+
+	private removeAllListeners(event?: string): any {
+		if (event) {
+			this.eventListeners.delete(event)
+		} else {
+			this.eventListeners.clear()
+		}
+		return this.provider
+	}
+
+	private emit(event: string, ...args: any[]): void {
+		const listeners = this.eventListeners.get(event)
+		if (listeners) {
+			;[...listeners].forEach((listener) => {
+				try {
+					listener(...args)
+				} catch (error) {
+					console.error(`事件监听器错误 (${event}):`, error)
+				}
+			})
+		}
+	}
+
+	// RPC方法实现
+	private request(args: RequestArguments): Promise<unknown> {
+		if (!args || typeof args !== 'object' || Array.isArray(args)) {
+			return Promise.reject(
+				new ProviderRpcError(
+					ProviderErrorCode.INVALID_PARAMS,
+					'request() 参数必须是对象'
+				)
+			)
+		}
+
+		const { method, params } = args
+		if (typeof method !== 'string' || method.length === 0) {
+			return Promise.reject(
+				new ProviderRpcError(
+					ProviderErrorCode.INVALID_PARAMS,
+					'method 必须是非空字符串'
+				)
+			)
+		}
+
+		return new Promise((resolve, reject) => {
+			const requestId = this.nextRequestId++
+			this.pendingRequests.set(requestId, { method, resolve, reject })
+
+			this.postToContentScript({
+				type: 'RPC_REQUEST',
+				requestId,
+				method,
+				params: params ?? []
+			})
+		})
+	}
+
+	// 旧版 send 接口：send(method, params) 或 send(payload, callback)
+	private send(methodOrPayload: any, paramsOrCallback?: any): any {
+		if (typeof methodOrPayload === 'string') {
+			return this.request({
+				method: methodOrPayload,
+				params: paramsOrCallback
+			})
+		}
+		if (typeof paramsOrCallback === 'function') {
+			return this.sendAsync(methodOrPayload, paramsOrCallback)
+		}
+		throw new ProviderRpcError(
+			ProviderErrorCode.UNSUPPORTED_METHOD,
+			'不支持同步 send 调用'
+		)
+	}
+
+	// 旧版 sendAsync 接口，回调返回 JSON-RPC 格式响应
+	private sendAsync(payload: any, callback: Function): void {
+		this.request({ method: payload.method, params: payload.params })
+			.then((result) =>
+				callback(null, {
+					id: payload.id,
+					jsonrpc: '2.0',
+					result
+				})
+			)
+			.catch((error: ProviderRpcError) =>
+				callback(error, {
+					id: payload.id,
+					jsonrpc: '2.0',
+					error: error.serialize()
+				})
+			)
+	}
+}
+
+// 创建 inpage provider 实例
+new InpageProvider()
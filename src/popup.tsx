@@ -1,11 +1,16 @@
 import React, { useEffect, useState } from 'react'
 
 import { Button } from '~components/Button'
+import {
+	ImportMnemonic,
+	type ImportMnemonicResult
+} from '~components/ImportMnemonic'
 import { ImportPrivateKey } from '~components/ImportPrivateKey'
 import { Layout } from '~components/Layout'
 import { MnemonicDisplay } from '~components/MnemonicDisplay'
 import { MnemonicVerification } from '~components/MnemonicVerification'
 import { PasswordSetup } from '~components/PasswordSetup'
+import { RestoreBackup } from '~components/RestoreBackup'
 import { UnlockWallet } from '~components/UnlockWallet'
 import { WalletCreated } from '~components/WalletCreated'
 import { WalletTabs } from '~components/WalletTabs'
@@ -13,6 +18,15 @@ import { CryptoService } from '~services/CryptoService'
 import { SecurityService } from '~services/SecurityService'
 import { StorageService } from '~services/StorageService'
 import { AccountService } from '~services/AccountService'
+import { UnlockAttemptService } from '~services/UnlockAttemptService'
+import type {
+	Keyring,
+	UnlockAttempt,
+	UnlockAttemptState,
+	WalletAccount,
+	WalletSessionState
+} from '~types/wallet'
+import { sendBackgroundMessage } from '~utils/messaging'
 import { initTheme } from '~utils/theme'
 
 import '~style.css'
@@ -26,6 +40,9 @@ type Screen =
 	| 'success'
 	| 'import'
 	| 'import-password'
+	| 'import-mnemonic'
+	| 'import-mnemonic-password'
+	| 'restore-backup'
 	| 'main'
 	| 'unlock'
 
@@ -38,7 +55,13 @@ function IndexPopup() {
 	const [loading, setLoading] = useState(true)
 	const [generatedMnemonic, setGeneratedMnemonic] = useState<string>('')
 	const [derivedAddress, setDerivedAddress] = useState<string>('')
+	// 仅在创建/导入流程中临时持有，保存到保险库后清除
 	const [derivedPrivateKey, setDerivedPrivateKey] = useState<string>('')
+	// 助记词恢复时的 BIP-39 密码短语和账户扫描选项
+	const [importPassphrase, setImportPassphrase] = useState<string>('')
+	const [scanImportedAccounts, setScanImportedAccounts] = useState(true)
+	// 本次解锁前连续失败的尝试，解锁后提示用户
+	const [unlockFailures, setUnlockFailures] = useState<UnlockAttempt[]>([])
 
 	// 检查钱包初始化状态
 	useEffect(() => {
@@ -50,8 +73,26 @@ function IndexPopup() {
 		// 设置全局内存清理
 		SecurityService.setupGlobalCleanup()
 
+		// 后台自动锁定后返回解锁界面
+		const handleMessage = (message: any) => {
+			if (message?.type === 'WALLET_LOCKED') {
+				setDerivedAddress('')
+				setCurrentScreen((screen) =>
+					screen === 'main' ? 'unlock' : screen
+				)
+			}
+			// 解锁失败次数达到上限，钱包数据已被清除
+			if (message?.type === 'WALLET_RESET') {
+				setDerivedAddress('')
+				setIsWalletInitialized(false)
+				setCurrentScreen('welcome')
+			}
+		}
+		chrome.runtime.onMessage.addListener(handleMessage)
+
 		// 返回清理函数
 		return () => {
+			chrome.runtime.onMessage.removeListener(handleMessage)
 			if (cleanupTheme) {
 				cleanupTheme()
 			}
@@ -92,9 +133,18 @@ function IndexPopup() {
 				setTestData(savedData)
 			}
 
-			// 如果已初始化，显示解锁界面；否则显示欢迎界面
+			// 如果已初始化，后台仍处于解锁状态时直接进入主界面，否则显示解锁界面
 			if (initialized) {
-				setCurrentScreen('unlock')
+				const session =
+					await sendBackgroundMessage<WalletSessionState>(
+						'GET_WALLET_STATE'
+					)
+				if (session.isUnlocked && session.selectedAddress) {
+					setDerivedAddress(session.selectedAddress)
+					setCurrentScreen('main')
+				} else {
+					setCurrentScreen('unlock')
+				}
 			} else {
 				setCurrentScreen('welcome')
 			}
@@ -189,25 +239,10 @@ function IndexPopup() {
 		try {
 			console.log('开始保存加密钱包数据...')
 
-			// 加密助记词
-			const encryptedMnemonic = CryptoService.encrypt(
-				generatedMnemonic,
-				password
-			)
-			console.log('助记词加密成功')
-
-			// 加密私钥
-			const encryptedPrivateKey = CryptoService.encrypt(
-				derivedPrivateKey,
-				password
-			)
-			console.log('私钥加密成功')
-
-			// 保存到本地存储
-			await StorageService.saveEncryptedWallet(
-				encryptedMnemonic,
-				encryptedPrivateKey
-			)
+			// 助记词作为 HD 密钥环交给后台加密保存到保险库
+			await createWalletSession(password, [
+				{ type: 'hd', mnemonic: generatedMnemonic }
+			])
 			console.log('钱包数据保存成功')
 
 			// 更新状态
@@ -226,46 +261,56 @@ function IndexPopup() {
 		setCurrentScreen('main')
 	}
 
+	// 由后台创建保险库并保持解锁，之后私钥不再保存在 popup 中
+	const createWalletSession = async (
+		password: string,
+		keyrings: Keyring[]
+	) => {
+		const session = await sendBackgroundMessage<WalletSessionState>(
+			'CREATE_WALLET',
+			{ password, keyrings }
+		)
+		SecurityService.clearPrivateKey(derivedPrivateKey)
+		setDerivedPrivateKey('')
+		setDerivedAddress(session.selectedAddress || derivedAddress)
+	}
+
+	const handleSwitchAccount = async (address: string) => {
+		try {
+			const session = await sendBackgroundMessage<WalletSessionState>(
+				'SELECT_ACCOUNT',
+				{ address }
+			)
+			setDerivedAddress(session.selectedAddress || address)
+		} catch (error) {
+			alert('切换账户失败: ' + error.message)
+		}
+	}
+
 	const handleUnlock = async (password: string) => {
 		try {
 			console.log('开始解锁钱包...')
 
-			// 获取加密的钱包数据
-			const encryptedWallet = await StorageService.getEncryptedWallet()
-			if (!encryptedWallet) {
-				throw new Error('未找到钱包数据')
+			// 由后台解密保险库（旧版数据会自动迁移）并保持解锁状态
+			const session = await sendBackgroundMessage<WalletSessionState>(
+				'UNLOCK_WALLET',
+				{ password }
+			)
+			if (!session.selectedAddress) {
+				throw new Error('钱包中没有账户')
 			}
 
-			console.log('找到加密钱包数据')
+			setDerivedAddress(session.selectedAddress)
 
-			// 尝试解密助记词来验证密码
-			const decryptedMnemonic = CryptoService.decrypt(
-				encryptedWallet.encryptedMnemonic.encryptedData,
-				password,
-				encryptedWallet.encryptedMnemonic.salt,
-				encryptedWallet.encryptedMnemonic.iv
+			// 提示上次解锁以来的失败尝试
+			const attempts = await sendBackgroundMessage<UnlockAttemptState>(
+				'GET_UNLOCK_ATTEMPTS'
 			)
-
-			console.log('密码验证成功')
-
-			// 解密私钥
-			const decryptedPrivateKey = CryptoService.decrypt(
-				encryptedWallet.encryptedPrivateKey.encryptedData,
-				password,
-				encryptedWallet.encryptedPrivateKey.salt,
-				encryptedWallet.encryptedPrivateKey.iv
+			setUnlockFailures(
+				UnlockAttemptService.getFailuresBeforeLastUnlock(attempts)
 			)
 
-			// 从私钥生成地址
-			const address =
-				CryptoService.privateKeyToAddress(decryptedPrivateKey)
-
-			// 更新状态
-			setGeneratedMnemonic(decryptedMnemonic)
-			setDerivedPrivateKey(decryptedPrivateKey)
-			setDerivedAddress(address)
-
-			console.log('钱包解锁成功，地址:', address)
+			console.log('钱包解锁成功，地址:', session.selectedAddress)
 
 			// 跳转到主界面
 			setCurrentScreen('main')
@@ -280,9 +325,6 @@ function IndexPopup() {
 		setDerivedPrivateKey(privateKey)
 		setDerivedAddress(address)
 
-		// 生成一个临时助记词（用于显示，实际不会使用）
-		setGeneratedMnemonic('导入的私钥账户')
-
 		console.log('私钥导入成功，地址:', address)
 
 		// 进入密码设置界面
@@ -293,21 +335,10 @@ function IndexPopup() {
 		try {
 			console.log('开始保存导入的钱包数据...')
 
-			// 加密私钥
-			const encryptedPrivateKey = CryptoService.encrypt(
-				derivedPrivateKey,
-				password
-			)
-			console.log('私钥加密成功')
-
-			// 创建一个空的助记词加密数据（因为是私钥导入）
-			const emptyMnemonicEncrypted = CryptoService.encrypt('', password)
-
-			// 保存到本地存储
-			await StorageService.saveEncryptedWallet(
-				emptyMnemonicEncrypted,
-				encryptedPrivateKey
-			)
+			// 导入的私钥作为独立密钥环交给后台加密保存到保险库
+			await createWalletSession(password, [
+				{ type: 'simple', privateKeys: [derivedPrivateKey] }
+			])
 			console.log('导入钱包数据保存成功')
 
 			// 更新状态
@@ -321,6 +352,63 @@ function IndexPopup() {
 		}
 	}
 
+	const handleMnemonicImportSuccess = (result: ImportMnemonicResult) => {
+		setGeneratedMnemonic(result.mnemonic)
+		setImportPassphrase(result.passphrase)
+		setScanImportedAccounts(result.scanAccounts)
+
+		// 进入密码设置界面
+		setCurrentScreen('import-mnemonic-password')
+	}
+
+	const handleMnemonicImportPasswordSet = async (password: string) => {
+		try {
+			console.log('开始保存恢复的钱包数据...')
+
+			// 恢复的助记词作为 HD 密钥环交给后台加密保存到保险库
+			await createWalletSession(password, [
+				{
+					type: 'hd',
+					mnemonic: generatedMnemonic,
+					passphrase: importPassphrase || undefined
+				}
+			])
+			SecurityService.clearMnemonic(generatedMnemonic)
+			SecurityService.clearPassword(importPassphrase)
+			setGeneratedMnemonic('')
+			setImportPassphrase('')
+
+			// 扫描失败不影响恢复，之后可以手动添加账户
+			if (scanImportedAccounts) {
+				try {
+					const discovered =
+						await sendBackgroundMessage<WalletAccount[]>(
+							'DISCOVER_ACCOUNTS'
+						)
+					console.log('扫描到已使用的账户:', discovered.length)
+				} catch (error) {
+					console.error('扫描账户失败:', error)
+				}
+			}
+
+			// 更新状态
+			setIsWalletInitialized(true)
+
+			// 显示创建成功界面
+			setCurrentScreen('success')
+		} catch (error) {
+			console.error('保存恢复的钱包失败:', error)
+			alert('保存钱包失败: ' + error.message)
+		}
+	}
+
+	const handleBackupRestored = (session: WalletSessionState) => {
+		console.log('钱包备份恢复成功，地址:', session.selectedAddress)
+		setDerivedAddress(session.selectedAddress || '')
+		setIsWalletInitialized(true)
+		setCurrentScreen('main')
+	}
+
 	const renderScreen = () => {
 		if (loading) {
 			return (
@@ -382,7 +470,23 @@ function IndexPopup() {
 								onClick={() => setCurrentScreen('import')}
 								variant="secondary"
 								className="w-full text-lg py-4">
-								📥 导入现有钱包
+								📥 导入私钥
+							</Button>
+							<Button
+								onClick={() =>
+									setCurrentScreen('import-mnemonic')
+								}
+								variant="secondary"
+								className="w-full text-lg py-4">
+								🔑 使用助记词恢复
+							</Button>
+							<Button
+								onClick={() =>
+									setCurrentScreen('restore-backup')
+								}
+								variant="secondary"
+								className="w-full text-lg py-4">
+								📦 从备份文件恢复
 							</Button>
 						</div>
 
@@ -542,35 +646,57 @@ function IndexPopup() {
 
 			case 'main':
 				return (
-					<WalletTabs
-						currentAccount={{
-							address: derivedAddress,
-							privateKey: derivedPrivateKey,
-							mnemonic: generatedMnemonic
-						}}
-						onLockWallet={() => {
-							console.log('锁定钱包，清理敏感数据...')
-
-							// 安全清理敏感数据
-							if (generatedMnemonic) {
-								SecurityService.clearMnemonic(generatedMnemonic)
-							}
-							if (derivedPrivateKey) {
-								SecurityService.clearPrivateKey(
-									derivedPrivateKey
+					<>
+						{unlockFailures.length > 0 && (
+							<div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-3 text-xs text-amber-800 flex justify-between">
+								<span>
+									⚠️ 上次解锁以来有 {unlockFailures.length}{' '}
+									次密码错误的尝试，最近一次在{' '}
+									{new Date(
+										unlockFailures[0].timestamp
+									).toLocaleString()}
+								</span>
+								<button onClick={() => setUnlockFailures([])}>
+									✕
+								</button>
+							</div>
+						)}
+						<WalletTabs
+							currentAccount={{
+								address: derivedAddress
+							}}
+							onSwitchAccount={handleSwitchAccount}
+							onLockWallet={() => {
+								console.log('锁定钱包，清理敏感数据...')
+
+								// 安全清理敏感数据
+								if (generatedMnemonic) {
+									SecurityService.clearMnemonic(
+										generatedMnemonic
+									)
+								}
+								if (derivedPrivateKey) {
+									SecurityService.clearPrivateKey(
+										derivedPrivateKey
+									)
+								}
+
+								// 清除状态并锁定后台会话
+								setGeneratedMnemonic('')
+								setDerivedPrivateKey('')
+								setDerivedAddress('')
+								AccountService.setMnemonic('')
+								sendBackgroundMessage('LOCK_WALLET').catch(
+									(error) =>
+										console.error('锁定钱包失败:', error)
 								)
-							}
-
-							// 清除状态并锁定钱包
-							setGeneratedMnemonic('')
-							setDerivedPrivateKey('')
-							setDerivedAddress('')
-							setCurrentScreen('unlock')
+								setCurrentScreen('unlock')
 
-							// 强制垃圾回收
-							SecurityService.forceGarbageCollection()
-						}}
-					/>
+								// 强制垃圾回收
+								SecurityService.forceGarbageCollection()
+							}}
+						/>
+					</>
 				)
 
 			case 'import':
@@ -590,6 +716,31 @@ function IndexPopup() {
 					/>
 				)
 
+			case 'import-mnemonic':
+				return (
+					<ImportMnemonic
+						onImportSuccess={handleMnemonicImportSuccess}
+						onBack={() => setCurrentScreen('welcome')}
+					/>
+				)
+
+			case 'import-mnemonic-password':
+				return (
+					<PasswordSetup
+						onPasswordSet={handleMnemonicImportPasswordSet}
+						onBack={() => setCurrentScreen('import-mnemonic')}
+					/>
+				)
+
+			case 'restore-backup':
+				return (
+					<RestoreBackup
+						onRestored={handleBackupRestored}
+						onBack={() => setCurrentScreen('welcome')}
+						hasExistingWallet={!!isWalletInitialized}
+					/>
+				)
+
 			default:
 				return <div>未知页面</div>
 		}
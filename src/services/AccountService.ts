@@ -1,7 +1,15 @@
-import type { WalletAccount } from '~types/wallet'
+import { ethers } from 'ethers'
+
+import {
+	WalletError,
+	WalletErrorType,
+	type WalletAccount,
+	type WalletAccountType
+} from '~types/wallet'
 
 import { CryptoService } from './CryptoService'
 import { StorageService } from './StorageService'
+import { VaultService, type KeyringAccount } from './VaultService'
 
 /**
  * 账户管理服务
@@ -11,11 +19,14 @@ export class AccountService {
 	// 静态变量，用于存储账户列表
 	private static accounts: WalletAccount[] = []
 	private static accountIndex: number = 0
+	// 助记词只保存在内存中，持久化数据在加密保险库里
 	private static mnemonic: string = ''
+	private static passphrase: string = ''
 	// 存储键名常量
 	private static readonly ACCOUNTS_STORAGE_KEY = 'walletAccounts'
-	private static readonly MNEMONIC_STORAGE_KEY = 'walletMnemonic'
 	private static readonly ACCOUNT_INDEX_STORAGE_KEY = 'walletAccountIndex'
+	// 当前选中账户的地址（后台也从该键读取）
+	private static readonly SELECTED_ACCOUNT_STORAGE_KEY = 'currentAccount'
 
 	// 初始化账户服务，从存储中加载账户信息
 	static async initialize(): Promise<void> {
@@ -24,21 +35,21 @@ export class AccountService {
 			const storedAccounts = await StorageService.getItem<
 				WalletAccount[]
 			>(this.ACCOUNTS_STORAGE_KEY)
-			const storedMnemonic = await StorageService.getItem<string>(
-				this.MNEMONIC_STORAGE_KEY
-			)
 			const storedIndex = await StorageService.getItem<number>(
 				this.ACCOUNT_INDEX_STORAGE_KEY
 			)
 			console.log('storedAccounts', storedAccounts)
-			console.log('storedMnemonic', storedMnemonic)
 			console.log('storedIndex', storedIndex)
 
+			// 清除旧版本遗留的明文助记词
+			await VaultService.removePlaintextSecrets()
+
 			if (storedAccounts && Array.isArray(storedAccounts)) {
-				this.accounts = storedAccounts
-			}
-			if (storedMnemonic) {
-				this.mnemonic = storedMnemonic
+				// 旧数据没有账户类型，都是密钥环账户
+				this.accounts = storedAccounts.map((account) => ({
+					...account,
+					type: account.type || 'keyring'
+				}))
 			}
 			if (storedIndex !== null && storedIndex !== undefined) {
 				this.accountIndex = storedIndex
@@ -48,7 +59,6 @@ export class AccountService {
 			// 如果加载失败，使用默认值
 			this.accounts = []
 			this.accountIndex = 0
-			this.mnemonic = ''
 		}
 	}
 
@@ -60,7 +70,8 @@ export class AccountService {
 		privateKey: string,
 		mnemonic?: string
 	) {
-		const account = {
+		const account: WalletAccount = {
+			type: 'keyring',
 			address,
 			name: `账户 ${this.accountIndex + 1}`,
 			index: this.accountIndex,
@@ -78,16 +89,235 @@ export class AccountService {
 		// 将账户信息保存到Chrome本地存储
 		await this.saveAccountsToStorage()
 
-		console.log(
-			'创建账户成功',
-			account,
-			this.accounts,
-			this.accountIndex,
-			this.mnemonic
+		console.log('创建账户成功', account, this.accounts, this.accountIndex)
+		return account
+	}
+
+	/**
+	 * 从助记词派生下一个 BIP-44 索引的账户
+	 */
+	static async addHdAccount(): Promise<WalletAccount> {
+		if (!this.mnemonic) {
+			throw new WalletError(
+				WalletErrorType.INVALID_MNEMONIC,
+				'当前钱包没有助记词，无法派生新账户'
+			)
+		}
+
+		const nextIndex = this.getHdAccountCount(0)
+		const [derived] = this.deriveAccountsFromMnemonic(
+			this.mnemonic,
+			1,
+			nextIndex,
+			this.passphrase
 		)
+		if (!derived) {
+			throw new WalletError(
+				WalletErrorType.INVALID_MNEMONIC,
+				'派生账户失败'
+			)
+		}
+		if (this.isAddressExists(derived.address, this.accounts, 'keyring')) {
+			throw new WalletError(WalletErrorType.ACCOUNT_EXISTS, '账户已存在')
+		}
+		// 已作为观察账户添加的地址升级为密钥环账户
+		this.accounts = this.accounts.filter(
+			(item) =>
+				item.address.toLowerCase() !== derived.address.toLowerCase()
+		)
+
+		const account: WalletAccount = {
+			type: 'keyring',
+			address: derived.address,
+			name: this.generateAccountName(nextIndex),
+			index: nextIndex,
+			createdAt: new Date(),
+			keyringType: 'hd'
+		}
+		this.accounts.push(account)
+		this.accountIndex = nextIndex + 1
+		await this.saveAccountsToStorage()
+
+		return account
+	}
+
+	/**
+	 * 确保保险库中的每个账户都在账户列表中（迁移或导入后补齐）
+	 */
+	static async syncWithKeyrings(
+		keyringAccounts: KeyringAccount[]
+	): Promise<void> {
+		const missing = keyringAccounts.filter(
+			(item) =>
+				!this.isAddressExists(item.address, this.accounts, 'keyring')
+		)
+		if (missing.length === 0) {
+			return
+		}
+
+		missing.forEach((item) => {
+			// 已作为观察账户添加的地址升级为密钥环账户
+			this.accounts = this.accounts.filter(
+				(account) =>
+					account.address.toLowerCase() !== item.address.toLowerCase()
+			)
+			this.accounts.push({
+				type: 'keyring',
+				address: item.address,
+				name:
+					item.keyringType === 'simple'
+						? `导入账户 ${item.index + 1}`
+						: this.generateAccountName(item.index),
+				index: item.index,
+				createdAt: new Date(),
+				keyringType: item.keyringType
+			})
+		})
+		this.accountIndex = this.getHdAccountCount(0)
+		await this.saveAccountsToStorage()
+	}
+
+	/**
+	 * 已派生的 HD 账户数量（最大索引 + 1）
+	 */
+	static getHdAccountCount(minimum: number = 1): number {
+		return this.accounts
+			.filter(
+				(account) =>
+					account.type === 'keyring' &&
+					(account.keyringType || 'hd') === 'hd'
+			)
+			.reduce(
+				(count, account) => Math.max(count, account.index + 1),
+				minimum
+			)
+	}
+
+	/**
+	 * 添加只读的观察账户
+	 * @param ensName 通过 ENS 名称添加时保存名称用于显示
+	 */
+	static async addWatchAccount(
+		address: string,
+		ensName?: string
+	): Promise<WalletAccount> {
+		if (!CryptoService.validateAddress(address)) {
+			throw new Error('地址格式无效')
+		}
+		if (this.isAddressExists(address, this.accounts, 'keyring')) {
+			throw new WalletError(
+				WalletErrorType.ACCOUNT_EXISTS,
+				'该地址已是钱包中的账户'
+			)
+		}
+		if (this.isAddressExists(address, this.accounts, 'watch')) {
+			throw new WalletError(
+				WalletErrorType.ACCOUNT_EXISTS,
+				'该观察账户已存在'
+			)
+		}
+
+		const index = this.accounts.filter(
+			(account) => account.type === 'watch'
+		).length
+		const account: WalletAccount = {
+			type: 'watch',
+			address: ethers.getAddress(address),
+			name: ensName || `观察账户 ${index + 1}`,
+			index,
+			createdAt: new Date(),
+			...(ensName ? { ensName } : {})
+		}
+		this.accounts.push(account)
+		await this.saveAccountsToStorage()
+
 		return account
 	}
 
+	/**
+	 * 移除观察账户（密钥环账户只能隐藏）
+	 */
+	static async removeWatchAccount(address: string): Promise<void> {
+		if (!this.isAddressExists(address, this.accounts, 'watch')) {
+			throw new Error('观察账户不存在')
+		}
+		this.accounts = this.accounts.filter(
+			(account) => account.address.toLowerCase() !== address.toLowerCase()
+		)
+		await this.saveAccountsToStorage()
+	}
+
+	/**
+	 * 是否为只读的观察账户
+	 */
+	static isWatchAccount(address: string): boolean {
+		return this.isAddressExists(address, this.accounts, 'watch')
+	}
+
+	/**
+	 * 重命名账户
+	 */
+	static async renameAccount(address: string, name: string): Promise<void> {
+		const trimmed = name.trim()
+		if (!trimmed) {
+			throw new Error('账户名称不能为空')
+		}
+		this.updateAccount(address, { name: trimmed })
+		await this.saveAccountsToStorage()
+	}
+
+	/**
+	 * 隐藏或显示账户
+	 */
+	static async setAccountHidden(
+		address: string,
+		hidden: boolean
+	): Promise<void> {
+		this.updateAccount(address, { hidden })
+		await this.saveAccountsToStorage()
+	}
+
+	/**
+	 * 获取持久化的当前账户地址
+	 */
+	static async getSelectedAddress(): Promise<string | null> {
+		return StorageService.getItem<string>(this.SELECTED_ACCOUNT_STORAGE_KEY)
+	}
+
+	/**
+	 * 持久化当前账户地址
+	 */
+	static async setSelectedAddress(address: string): Promise<void> {
+		await StorageService.setItem(this.SELECTED_ACCOUNT_STORAGE_KEY, address)
+	}
+
+	/**
+	 * 清除所有账户信息（新建或导入钱包覆盖旧钱包时使用）
+	 */
+	static async reset(): Promise<void> {
+		this.accounts = []
+		this.accountIndex = 0
+		this.setMnemonic('')
+		await Promise.all([
+			StorageService.removeItem(this.ACCOUNTS_STORAGE_KEY),
+			StorageService.removeItem(this.ACCOUNT_INDEX_STORAGE_KEY),
+			StorageService.removeItem(this.SELECTED_ACCOUNT_STORAGE_KEY)
+		])
+	}
+
+	private static updateAccount(
+		address: string,
+		updates: Partial<WalletAccount>
+	): void {
+		const account = this.accounts.find(
+			(item) => item.address.toLowerCase() === address.toLowerCase()
+		)
+		if (!account) {
+			throw new Error('账户不存在')
+		}
+		Object.assign(account, updates)
+	}
+
 	/**
 	 * 将账户信息保存到Chrome本地存储
 	 */
@@ -95,22 +325,22 @@ export class AccountService {
 		try {
 			// 保存账户列表，但不包含敏感信息（私钥和助记词）
 			const accountsToStore = this.accounts.map((account) => ({
+				type: account.type,
 				address: account.address,
 				name: account.name,
 				index: account.index,
-				createdAt: account.createdAt
+				createdAt: account.createdAt,
+				keyringType: account.keyringType,
+				hidden: account.hidden,
+				ensName: account.ensName
 			}))
 
-			// 分别保存账户列表、助记词和账户索引
+			// 分别保存账户列表和账户索引（助记词只保存在加密保险库中）
 			await Promise.all([
 				StorageService.setItem(
 					this.ACCOUNTS_STORAGE_KEY,
 					accountsToStore
 				),
-				StorageService.setItem(
-					this.MNEMONIC_STORAGE_KEY,
-					this.mnemonic
-				),
 				StorageService.setItem(
 					this.ACCOUNT_INDEX_STORAGE_KEY,
 					this.accountIndex
@@ -138,6 +368,14 @@ export class AccountService {
 		return this.mnemonic
 	}
 
+	/**
+	 * 设置解锁后的助记词和 BIP-39 密码短语（仅保存在内存中）
+	 */
+	static setMnemonic(mnemonic: string, passphrase: string = ''): void {
+		this.mnemonic = mnemonic
+		this.passphrase = passphrase
+	}
+
 	/**
 	 * 获取账户索引
 	 */
@@ -228,7 +466,8 @@ export class AccountService {
 	static deriveAccountsFromMnemonic(
 		mnemonic: string,
 		count: number = 1,
-		startIndex: number = 0
+		startIndex: number = 0,
+		passphrase?: string
 	): { address: string; privateKey: string; index: number }[] {
 		const accounts = []
 
@@ -237,7 +476,7 @@ export class AccountService {
 			try {
 				const privateKey = CryptoService.derivePrivateKeyFromMnemonic(
 					mnemonic,
-					undefined,
+					passphrase,
 					index
 				)
 				const address = CryptoService.privateKeyToAddress(privateKey)
@@ -258,13 +497,17 @@ export class AccountService {
 
 	/**
 	 * 检查地址是否已存在于账户列表中
+	 * @param type 只检查指定类型的账户，不传时检查全部
 	 */
 	static isAddressExists(
 		address: string,
-		accounts: WalletAccount[]
+		accounts: WalletAccount[],
+		type?: WalletAccountType
 	): boolean {
 		return accounts.some(
-			(account) => account.address.toLowerCase() === address.toLowerCase()
+			(account) =>
+				(!type || account.type === type) &&
+				account.address.toLowerCase() === address.toLowerCase()
 		)
 	}
 }
@@ -0,0 +1,300 @@
+import { ethers } from 'ethers'
+
+import {
+	ERC20_ABI,
+	ERC1155_INTERFACE_ID,
+	NFT_APPROVAL_ABI
+} from '~config/tokens'
+import type {
+	BlockchainErrorType,
+	LogScanState,
+	MulticallCall,
+	MulticallResult,
+	TokenApproval,
+	TokenApprovalScanResult,
+	TransactionRequest
+} from '~types/blockchain'
+import { BlockchainError } from '~types/blockchain'
+
+import { blockchainService } from './BlockchainService'
+
+// 缓存已扫描的区块范围和日志中发现的授权
+const APPROVAL_SCANS_STORAGE_KEY = 'approvalScans'
+// 每次 Multicall 确认的授权数量
+const CONFIRM_BATCH_SIZE = 100
+// 额度超过该值视为无限授权（Dapp 通常使用 MaxUint256）
+const UNLIMITED_ALLOWANCE = ethers.MaxUint256 / 2n
+
+// 日志中发现的授权，当前是否有效需要到链上确认
+interface ApprovalCandidate {
+	kind: 'erc20' | 'nft'
+	token: string
+	spender: string
+	blockNumber: number
+}
+
+/**
+ * 代币授权服务
+ * 通过 Approval/ApprovalForAll 日志找出账户授予过的授权，再到链上确认当前额度
+ */
+export class ApprovalService {
+	private readonly erc20 = new ethers.Interface(ERC20_ABI)
+	private readonly nft = new ethers.Interface(NFT_APPROVAL_ABI)
+	private readonly approvalTopic = this.erc20.getEvent('Approval')!.topicHash
+	private readonly approvalForAllTopic =
+		this.nft.getEvent('ApprovalForAll')!.topicHash
+
+	/**
+	 * 获取账户在当前网络上仍然有效的授权
+	 * 扫描进度会缓存，之后只查询新区块；scanOlder 为 true 时继续向前扫描一段区块
+	 */
+	async getApprovals(
+		owner: string,
+		scanOlder: boolean = false
+	): Promise<TokenApprovalScanResult> {
+		if (!ethers.isAddress(owner)) {
+			throw new BlockchainError(
+				'INVALID_ADDRESS' as BlockchainErrorType,
+				'无效的地址格式'
+			)
+		}
+
+		const state =
+			await blockchainService.scanLogsIncrementally<ApprovalCandidate>(
+				APPROVAL_SCANS_STORAGE_KEY,
+				owner,
+				scanOlder,
+				(fromBlock, toBlock, scanState) =>
+					this.scanLogs(owner, fromBlock, toBlock, scanState)
+			)
+
+		return {
+			approvals: await this.confirmApprovals(owner, state.candidates),
+			fromBlock: state.fromBlock,
+			toBlock: state.toBlock
+		}
+	}
+
+	/**
+	 * 构建撤销授权的交易：ERC-20 将额度设为 0，NFT 取消全部授权
+	 */
+	buildRevokeTransaction(approval: TokenApproval): TransactionRequest {
+		return {
+			to: approval.token,
+			value: '0',
+			data:
+				approval.type === 'erc20'
+					? this.erc20.encodeFunctionData('approve', [
+							approval.spender,
+							0
+						])
+					: this.nft.encodeFunctionData('setApprovalForAll', [
+							approval.spender,
+							false
+						])
+		}
+	}
+
+	// 分段查询授权日志，把发现的授权合并到扫描状态中
+	private async scanLogs(
+		owner: string,
+		fromBlock: number,
+		toBlock: number,
+		state: LogScanState<ApprovalCandidate>
+	): Promise<void> {
+		const candidates = new Map(
+			state.candidates.map((candidate) => [
+				this.getCandidateKey(candidate),
+				candidate
+			])
+		)
+
+		// 两种事件的第一个索引参数都是授权方
+		const logs = await blockchainService.getLogs(
+			{
+				topics: [
+					[this.approvalTopic, this.approvalForAllTopic],
+					ethers.zeroPadValue(owner, 32)
+				]
+			},
+			fromBlock,
+			toBlock
+		)
+		for (const log of logs) {
+			const candidate = this.parseLog(log)
+			if (!candidate) {
+				continue
+			}
+
+			const key = this.getCandidateKey(candidate)
+			const existing = candidates.get(key)
+			if (!existing || existing.blockNumber < candidate.blockNumber) {
+				candidates.set(key, candidate)
+			}
+		}
+
+		state.candidates = Array.from(candidates.values())
+	}
+
+	private parseLog(log: ethers.Log): ApprovalCandidate | null {
+		const [topic, , spenderTopic] = log.topics
+		const base = {
+			token: ethers.getAddress(log.address),
+			spender: ethers.getAddress(ethers.dataSlice(spenderTopic, 12)),
+			blockNumber: log.blockNumber
+		}
+
+		// ERC-721 的单个 NFT 授权同样是 Approval 事件，但 tokenId 也被索引（4 个 topic）
+		if (topic === this.approvalTopic && log.topics.length === 3) {
+			return { kind: 'erc20', ...base }
+		}
+		if (topic === this.approvalForAllTopic) {
+			return { kind: 'nft', ...base }
+		}
+		return null
+	}
+
+	// 到链上确认授权当前是否仍然有效，并补充代币信息
+	private async confirmApprovals(
+		owner: string,
+		candidates: ApprovalCandidate[]
+	): Promise<TokenApproval[]> {
+		const approvals: TokenApproval[] = []
+
+		for (let i = 0; i < candidates.length; i += CONFIRM_BATCH_SIZE) {
+			const batch = candidates.slice(i, i + CONFIRM_BATCH_SIZE)
+			// 每个授权 3 个调用：当前状态、代币类型/精度、名称
+			const results = await blockchainService.multicall(
+				batch.flatMap((candidate) =>
+					this.getConfirmCalls(owner, candidate)
+				)
+			)
+
+			batch.forEach((candidate, index) => {
+				const approval = this.toApproval(
+					candidate,
+					results.slice(index * 3, index * 3 + 3)
+				)
+				if (approval) {
+					approvals.push(approval)
+				}
+			})
+		}
+
+		// 无限授权风险最高，排在最前
+		return approvals.sort(
+			(a, b) =>
+				Number(b.isUnlimited) - Number(a.isUnlimited) ||
+				b.blockNumber - a.blockNumber
+		)
+	}
+
+	private getConfirmCalls(
+		owner: string,
+		candidate: ApprovalCandidate
+	): MulticallCall[] {
+		const target = candidate.token
+		if (candidate.kind === 'erc20') {
+			return [
+				{
+					target,
+					callData: this.erc20.encodeFunctionData('allowance', [
+						owner,
+						candidate.spender
+					])
+				},
+				{ target, callData: this.erc20.encodeFunctionData('decimals') },
+				{ target, callData: this.erc20.encodeFunctionData('symbol') }
+			]
+		}
+		return [
+			{
+				target,
+				callData: this.nft.encodeFunctionData('isApprovedForAll', [
+					owner,
+					candidate.spender
+				])
+			},
+			{
+				target,
+				callData: this.nft.encodeFunctionData('supportsInterface', [
+					ERC1155_INTERFACE_ID
+				])
+			},
+			{ target, callData: this.nft.encodeFunctionData('name') }
+		]
+	}
+
+	private toApproval(
+		candidate: ApprovalCandidate,
+		[state, detail, name]: MulticallResult[]
+	): TokenApproval | null {
+		const base = {
+			token: candidate.token,
+			spender: candidate.spender,
+			blockNumber: candidate.blockNumber
+		}
+
+		if (candidate.kind === 'erc20') {
+			const allowance = blockchainService.decodeMulticallResult<bigint>(
+				this.erc20,
+				'allowance',
+				state
+			)
+			if (!allowance) {
+				return null
+			}
+			const decimals = blockchainService.decodeMulticallResult<bigint>(
+				this.erc20,
+				'decimals',
+				detail
+			)
+			return {
+				...base,
+				type: 'erc20',
+				tokenName: blockchainService.decodeMulticallResult<string>(
+					this.erc20,
+					'symbol',
+					name
+				),
+				decimals: decimals !== undefined ? Number(decimals) : undefined,
+				allowance: allowance.toString(),
+				isUnlimited: allowance >= UNLIMITED_ALLOWANCE
+			}
+		}
+
+		if (
+			!blockchainService.decodeMulticallResult<boolean>(
+				this.nft,
+				'isApprovedForAll',
+				state
+			)
+		) {
+			return null
+		}
+		return {
+			...base,
+			type: blockchainService.decodeMulticallResult<boolean>(
+				this.nft,
+				'supportsInterface',
+				detail
+			)
+				? 'erc1155'
+				: 'erc721',
+			tokenName: blockchainService.decodeMulticallResult<string>(
+				this.nft,
+				'name',
+				name
+			),
+			// 全部授权可以转走该合约下的所有 NFT
+			isUnlimited: true
+		}
+	}
+
+	private getCandidateKey(candidate: ApprovalCandidate): string {
+		return `${candidate.kind}:${candidate.token}:${candidate.spender}`.toLowerCase()
+	}
+}
+
+// 导出单例实例
+export const approvalService = new ApprovalService()
@@ -0,0 +1,159 @@
+import { ethers } from 'ethers'
+
+import {
+	WalletError,
+	WalletErrorType,
+	type WalletBackupFile
+} from '~types/wallet'
+
+import { CryptoService } from './CryptoService'
+import { SettingsService } from './SettingsService'
+import { StorageService } from './StorageService'
+import { VaultService } from './VaultService'
+
+/**
+ * 钱包备份服务
+ * 将保险库和账户、权限、设置等存储数据导出为一个加密文件，可在其他浏览器配置中恢复
+ */
+export class BackupService {
+	static readonly BACKUP_FORMAT = 'plasmo-wallet-backup'
+	// 当前备份文件格式版本
+	static readonly BACKUP_VERSION = 1
+
+	// 备份包含的存储键，新增需要随钱包迁移的数据时在这里登记
+	// approvalScans、nftScans 为链上扫描缓存，不备份，恢复后重新扫描
+	private static readonly BACKUP_KEYS = [
+		'walletData', // 加密保险库
+		'walletAccounts', // 账户名称、隐藏状态
+		'walletAccountIndex',
+		'currentAccount',
+		'walletSettings',
+		'dappPermissions',
+		'walletTokens', // 用户添加的代币
+		'selectedNetwork',
+		'transaction_history' // 交易记录
+	]
+
+	/**
+	 * 验证密码后导出备份文件内容（JSON 字符串）
+	 */
+	static async createBackup(password: string): Promise<string> {
+		// 备份与保险库使用同一个密码，恢复后可直接解锁
+		await VaultService.unlockVault(password)
+
+		const entries = await chrome.storage.local.get(this.BACKUP_KEYS)
+		const { vaultKdf } = await SettingsService.getSettings()
+		const data = await CryptoService.encrypt(
+			JSON.stringify(entries),
+			password,
+			vaultKdf
+		)
+
+		const backup: WalletBackupFile = {
+			format: this.BACKUP_FORMAT,
+			version: this.BACKUP_VERSION,
+			createdAt: Date.now(),
+			checksum: this.checksum(data),
+			data
+		}
+		return JSON.stringify(backup, null, 2)
+	}
+
+	/**
+	 * 解析并校验备份文件（不需要密码）
+	 */
+	static parseBackup(content: string): WalletBackupFile {
+		let backup: WalletBackupFile
+		try {
+			backup = JSON.parse(content)
+		} catch (error) {
+			throw new WalletError(
+				WalletErrorType.INVALID_BACKUP,
+				'备份文件格式错误',
+				error
+			)
+		}
+
+		if (backup?.format !== this.BACKUP_FORMAT || !backup.data) {
+			throw new WalletError(
+				WalletErrorType.INVALID_BACKUP,
+				'不是有效的钱包备份文件'
+			)
+		}
+		if (backup.version > this.BACKUP_VERSION) {
+			throw new WalletError(
+				WalletErrorType.INVALID_BACKUP,
+				`备份文件版本 ${backup.version} 过新，请先升级钱包`
+			)
+		}
+		if (backup.checksum !== this.checksum(backup.data)) {
+			throw new WalletError(
+				WalletErrorType.INVALID_BACKUP,
+				'备份文件校验失败，文件可能已损坏'
+			)
+		}
+		return backup
+	}
+
+	/**
+	 * 从备份文件恢复，覆盖本机全部钱包数据，失败时恢复原数据
+	 */
+	static async restoreBackup(
+		content: string,
+		password: string
+	): Promise<void> {
+		const backup = this.parseBackup(content)
+
+		let entries: Record<string, unknown>
+		try {
+			entries = JSON.parse(
+				await CryptoService.decrypt(backup.data, password)
+			)
+		} catch (error) {
+			throw new WalletError(
+				WalletErrorType.WRONG_PASSWORD,
+				'备份密码错误',
+				error
+			)
+		}
+		if (!entries.walletData) {
+			throw new WalletError(
+				WalletErrorType.INVALID_BACKUP,
+				'备份文件中没有钱包数据'
+			)
+		}
+
+		// 保存恢复前的全部数据，写入失败时还原
+		const snapshot = await chrome.storage.local.get()
+		try {
+			await StorageService.clearWalletData()
+			await chrome.storage.local.set({
+				...this.pickBackupKeys(entries),
+				walletInitialized: true
+			})
+		} catch (error) {
+			await chrome.storage.local.clear()
+			await chrome.storage.local.set(snapshot)
+			throw new WalletError(
+				WalletErrorType.STORAGE_ERROR,
+				'恢复备份失败，已还原原有数据',
+				error
+			)
+		}
+	}
+
+	// 只写入登记过的存储键，忽略备份文件中的其他内容
+	private static pickBackupKeys(
+		entries: Record<string, unknown>
+	): Record<string, unknown> {
+		return Object.fromEntries(
+			this.BACKUP_KEYS.filter((key) => entries[key] !== undefined).map(
+				(key) => [key, entries[key]]
+			)
+		)
+	}
+
+	private static checksum(data: WalletBackupFile['data']): string {
+		return ethers.sha256(ethers.toUtf8Bytes(JSON.stringify(data)))
+	}
+}
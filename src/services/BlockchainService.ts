@@ -6,15 +6,21 @@ import {
 	NETWORKS,
 	RPC_CONFIG
 } from '../config/blockchain'
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from '../config/tokens'
 import type {
 	BlockchainErrorType,
 	GasPriceData,
+	LogScanState,
+	MulticallCall,
+	MulticallResult,
 	NetworkConfig,
-	TransactionRequest,
-	UserNFT
+	TransactionRequest
 } from '../types/blockchain'
 import { BlockchainError } from '../types/blockchain'
-import { nftToStandardFormat } from '../utils/utils'
+import { StorageService } from './StorageService'
+
+// popup、确认窗口和后台各有一个服务实例，通过存储同步当前网络
+const SELECTED_NETWORK_STORAGE_KEY = 'selectedNetwork'
 
 /**
  * 核心区块链服务类
@@ -25,15 +31,57 @@ export class BlockchainService {
 	private currentNetwork: string = DEFAULT_NETWORK
 	private isConnected: boolean = false
 	private initializationPromise: Promise<void> | null = null
+	private readonly multicallInterface = new ethers.Interface(MULTICALL3_ABI)
+	private networkChangeListeners: Set<(networkKey: string) => void> =
+		new Set()
 
 	constructor() {
 		// 异步初始化，不阻塞构造函数
-		this.initializationPromise = this.initializeProvider().catch(
-			(error) => {
+		this.initializationPromise = this.loadSelectedNetwork()
+			.then(() => this.initializeProvider())
+			.catch((error) => {
 				console.error('BlockchainService 初始化失败:', error)
 				throw error
-			}
+			})
+		this.watchSelectedNetwork()
+	}
+
+	// 恢复上次选择的网络
+	private async loadSelectedNetwork(): Promise<void> {
+		const networkKey = await StorageService.getItem<string>(
+			SELECTED_NETWORK_STORAGE_KEY
 		)
+		if (networkKey && NETWORKS[networkKey]) {
+			this.currentNetwork = networkKey
+		}
+	}
+
+	// 其他页面切换网络后同步切换
+	private watchSelectedNetwork(): void {
+		if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) {
+			return
+		}
+
+		chrome.storage.onChanged.addListener(async (changes, areaName) => {
+			const networkKey = changes[SELECTED_NETWORK_STORAGE_KEY]?.newValue
+			if (
+				areaName !== 'local' ||
+				!networkKey ||
+				!NETWORKS[networkKey] ||
+				networkKey === this.currentNetwork
+			) {
+				return
+			}
+
+			try {
+				await this.switchNetwork(networkKey)
+				this.networkChangeListeners.forEach((listener) =>
+					listener(networkKey)
+				)
+			} catch (error) {
+				console.error('同步网络切换失败:', error)
+			}
+		})
 	}
 
 	/**
@@ -115,7 +163,22 @@ export class BlockchainService {
 	}
 
 	/**
-	 * 切换网络
+	 * 获取当前网络的键名（NETWORKS 中的 key）
+	 */
+	getCurrentNetworkKey(): string {
+		return this.currentNetwork
+	}
+
+	/**
+	 * 监听其他页面发起的网络切换，返回取消监听的函数
+	 */
+	onNetworkChanged(callback: (networkKey: string) => void): () => void {
+		this.networkChangeListeners.add(callback)
+		return () => this.networkChangeListeners.delete(callback)
+	}
+
+	/**
+	 * 切换网络，并保存选择以同步到其他页面
 	 */
 	async switchNetwork(networkKey: string): Promise<void> {
 		if (!NETWORKS[networkKey]) {
@@ -126,6 +189,7 @@ export class BlockchainService {
 		}
 
 		this.currentNetwork = networkKey
+		await StorageService.setItem(SELECTED_NETWORK_STORAGE_KEY, networkKey)
 		await this.initializeProvider()
 	}
 
@@ -321,48 +385,162 @@ export class BlockchainService {
 	}
 
 	/**
-	 * 重新连接
+	 * 通过 Multicall3 的 aggregate3 批量执行只读调用，单个调用失败不影响其他调用
 	 */
-	async reconnect(): Promise<void> {
-		this.isConnected = false
-		this.provider = null
-		this.initializationPromise = this.initializeProvider()
-		await this.initializationPromise
+	async multicall(calls: MulticallCall[]): Promise<MulticallResult[]> {
+		if (calls.length === 0) {
+			return []
+		}
+
+		try {
+			const provider = this.getCurrentProvider()
+			const data = await provider.call({
+				to: MULTICALL3_ADDRESS,
+				data: this.multicallInterface.encodeFunctionData('aggregate3', [
+					calls.map((call) => ({ ...call, allowFailure: true }))
+				])
+			})
+			const [results] = this.multicallInterface.decodeFunctionResult(
+				'aggregate3',
+				data
+			)
+			return results.map((result: MulticallResult) => ({
+				success: result.success,
+				returnData: result.returnData
+			}))
+		} catch (error) {
+			if (error instanceof BlockchainError) {
+				throw error
+			}
+			throw new BlockchainError(
+				'NETWORK_ERROR' as BlockchainErrorType,
+				'批量查询合约数据失败',
+				error
+			)
+		}
 	}
 
 	/**
-	 * 获取NFT
+	 * 解码单个调用结果，调用失败或返回格式不符时返回 undefined
 	 */
-	async getNfts(address: string): Promise<UserNFT[]> {
-		const network = 'eth-sepolia'
-		const apiKey = '02b0923c2cb8420f991d9b232bea0b35'
-		if (!apiKey) throw new Error('Alchemy API key not configured')
-		if (!network) throw new Error('Unsupported network')
-
-		// const url = `https://${network}.g.alchemy.com/nft/v3/${apiKey}/getNFTs`
-
+	decodeMulticallResult<T>(
+		contractInterface: ethers.Interface,
+		method: string,
+		result: MulticallResult
+	): T | undefined {
+		if (!result?.success || result.returnData === '0x') {
+			return undefined
+		}
 		try {
-			const response = await fetch(
-				`https://api.chainbase.online/v1/account/nfts?chain_id=11155111&address=${address}&page=1&limit=100`,
-				{
-					method: 'GET',
-					headers: {
-						accept: 'application/json',
-						'x-api-key': '32Vheule5iRuLab4mBJhBnmctWi'
-					}
+			return contractInterface.decodeFunctionResult(
+				method,
+				result.returnData
+			)[0]
+		} catch {
+			return undefined
+		}
+	}
+
+	/**
+	 * 分段查询区块范围内的日志
+	 * 节点拒绝查询（范围过大或结果过多）时自动缩小每段的区块数
+	 */
+	async getLogs(
+		filter: Omit<ethers.Filter, 'fromBlock' | 'toBlock'>,
+		fromBlock: number,
+		toBlock: number
+	): Promise<ethers.Log[]> {
+		const provider = this.getCurrentProvider()
+		const logs: ethers.Log[] = []
+		let chunkSize = RPC_CONFIG.logChunkSize
+		let start = fromBlock
+
+		while (start <= toBlock) {
+			const end = Math.min(start + chunkSize - 1, toBlock)
+			try {
+				logs.push(
+					...(await provider.getLogs({
+						...filter,
+						fromBlock: start,
+						toBlock: end
+					}))
+				)
+				start = end + 1
+			} catch (error) {
+				if (chunkSize <= RPC_CONFIG.minLogChunkSize) {
+					throw new BlockchainError(
+						'NETWORK_ERROR' as BlockchainErrorType,
+						'查询链上日志失败',
+						error
+					)
 				}
+				chunkSize = Math.max(
+					Math.floor(chunkSize / 2),
+					RPC_CONFIG.minLogChunkSize
+				)
+			}
+		}
+		return logs
+	}
+
+	/**
+	 * 增量扫描账户在当前网络上的日志，扫描进度按 `${chainId}:${账户}` 缓存在 storageKey 下
+	 * 之后只扫描新区块；scanOlder 为 true 时继续向前扫描一段区块
+	 */
+	async scanLogsIncrementally<T>(
+		storageKey: string,
+		owner: string,
+		scanOlder: boolean,
+		scanRange: (
+			fromBlock: number,
+			toBlock: number,
+			state: LogScanState<T>
+		) => Promise<void>
+	): Promise<LogScanState<T>> {
+		const latestBlock = await this.getCurrentProvider().getBlockNumber()
+		const scans =
+			(await StorageService.getItem<Record<string, LogScanState<T>>>(
+				storageKey
+			)) || {}
+		const key = `${this.getCurrentNetwork().chainId}:${owner.toLowerCase()}`
+
+		let state = scans[key]
+		if (!state) {
+			const fromBlock = Math.max(
+				latestBlock - RPC_CONFIG.logScanWindow + 1,
+				0
 			)
-			const data = await response.json()
+			state = { fromBlock, toBlock: fromBlock - 1, candidates: [] }
+		}
 
-			if (data.error) {
-				throw new Error(data.error.message)
-			}
+		// 上次扫描之后的新区块
+		if (latestBlock > state.toBlock) {
+			await scanRange(state.toBlock + 1, latestBlock, state)
+			state.toBlock = latestBlock
+		}
 
-			return (data && data.ownedNfts.map(nftToStandardFormat)) || []
-		} catch (err) {
-			console.error('Failed to fetch NFTs:', err)
-			throw err
+		if (scanOlder && state.fromBlock > 0) {
+			const fromBlock = Math.max(
+				state.fromBlock - RPC_CONFIG.logScanWindow,
+				0
+			)
+			await scanRange(fromBlock, state.fromBlock - 1, state)
+			state.fromBlock = fromBlock
 		}
+
+		scans[key] = state
+		await StorageService.setItem(storageKey, scans)
+		return state
+	}
+
+	/**
+	 * 重新连接
+	 */
+	async reconnect(): Promise<void> {
+		this.isConnected = false
+		this.provider = null
+		this.initializationPromise = this.initializeProvider()
+		await this.initializationPromise
 	}
 }
 
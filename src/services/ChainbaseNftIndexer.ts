@@ -0,0 +1,76 @@
+import type { NftIndexer, UserNFT } from '~types/blockchain'
+import { toGatewayUrl } from '~utils/utils'
+
+const CHAINBASE_API_URL = 'https://api.chainbase.online/v1/account/nfts'
+// Chainbase 支持的网络（以太坊主网、Sepolia）
+const SUPPORTED_CHAIN_IDS = [1, 11155111]
+const PAGE_SIZE = 100
+// 最多读取的页数，避免持有大量 NFT 的账户请求过多
+const MAX_PAGES = 5
+
+/**
+ * Chainbase NFT 索引服务
+ * 需要在 PLASMO_PUBLIC_CHAINBASE_API_KEY 中配置 API Key
+ */
+export class ChainbaseNftIndexer implements NftIndexer {
+	readonly name = 'Chainbase'
+
+	constructor(private readonly apiKey: string) {}
+
+	supportsChain(chainId: number): boolean {
+		return SUPPORTED_CHAIN_IDS.includes(chainId)
+	}
+
+	async getNfts(owner: string, chainId: number): Promise<UserNFT[]> {
+		const nfts: UserNFT[] = []
+		let page: number | undefined = 1
+
+		while (page && page <= MAX_PAGES) {
+			const response = await fetch(
+				`${CHAINBASE_API_URL}?chain_id=${chainId}&address=${owner}&page=${page}&limit=${PAGE_SIZE}`,
+				{
+					headers: {
+						accept: 'application/json',
+						'x-api-key': this.apiKey
+					}
+				}
+			)
+			const result = await response.json()
+			if (!response.ok || result.code !== 0) {
+				throw new Error(result.message || 'Chainbase 查询 NFT 失败')
+			}
+
+			nfts.push(
+				...(result.data || []).map((item: any) =>
+					this.toUserNft(item, chainId)
+				)
+			)
+			page = result.next_page
+		}
+		return nfts
+	}
+
+	private toUserNft(item: any, chainId: number): UserNFT {
+		const metadata = item.metadata || {}
+		return {
+			tokenId: item.token_id,
+			contract: item.contract_address,
+			name: metadata.name || `${item.name || 'NFT'} #${item.token_id}`,
+			description: metadata.description || '',
+			image: toGatewayUrl(
+				item.image_uri ||
+					(typeof metadata.image === 'string' ? metadata.image : '')
+			),
+			collection: item.name || '',
+			chainId,
+			tokenType: item.erc_type === 'ERC1155' ? 'ERC1155' : 'ERC721',
+			balance:
+				item.erc_type === 'ERC1155'
+					? item.total?.toString()
+					: undefined,
+			attributes: Array.isArray(metadata.attributes)
+				? metadata.attributes
+				: undefined
+		}
+	}
+}
@@ -1,11 +1,21 @@
+import { argon2idAsync } from '@noble/hashes/argon2'
+import { scryptAsync } from '@noble/hashes/scrypt'
 import * as bip39 from 'bip39'
 import * as CryptoJS from 'crypto-js'
 import * as ethers from 'ethers'
 
+import type { EncryptedData, KdfAlgorithm, KdfParams } from '~types/wallet'
+
 /**
  * 加密服务 - 处理助记词生成、验证和密钥派生
  */
 export class CryptoService {
+	// 各密钥派生算法的默认参数（参考 OWASP 密码存储建议）
+	static readonly KDF_PARAMS: Record<KdfAlgorithm, KdfParams> = {
+		scrypt: { algorithm: 'scrypt', N: 2 ** 17, r: 8, p: 1 },
+		argon2id: { algorithm: 'argon2id', t: 2, m: 19 * 1024, p: 1 }
+	}
+
 	/**
 	 * 生成 BIP39 助记词（12个单词）
 	 */
@@ -20,6 +30,16 @@ export class CryptoService {
 		}
 	}
 
+	// 支持导入的助记词单词数量
+	static readonly MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24]
+
+	/**
+	 * 获取 BIP39 英文单词表（用于输入联想）
+	 */
+	static getMnemonicWordlist(): string[] {
+		return bip39.wordlists.english
+	}
+
 	/**
 	 * 验证助记词是否有效
 	 */
@@ -107,6 +127,67 @@ export class CryptoService {
 		}
 	}
 
+	/**
+	 * 使用私钥进行 personal_sign 签名（十六进制消息按字节签名）
+	 */
+	static async signMessage(
+		privateKey: string,
+		message: string
+	): Promise<string> {
+		try {
+			const wallet = new ethers.Wallet(privateKey)
+			const payload = ethers.isHexString(message)
+				? ethers.getBytes(message)
+				: message
+			return await wallet.signMessage(payload)
+		} catch (error) {
+			console.error('消息签名失败:', error)
+			throw new Error('消息签名失败')
+		}
+	}
+
+	/**
+	 * 是否为 Web3 Secret Storage v3 格式的 keystore JSON
+	 */
+	static isKeystoreJson(json: string): boolean {
+		return ethers.isKeystoreJson(json)
+	}
+
+	/**
+	 * 解密 keystore JSON（Geth/MetaMask/Foundry 导出，支持 scrypt 和 pbkdf2）
+	 */
+	static async decryptKeystore(
+		json: string,
+		password: string
+	): Promise<{ address: string; privateKey: string }> {
+		if (!this.isKeystoreJson(json)) {
+			throw new Error('不是有效的 keystore 文件')
+		}
+		try {
+			const account = await ethers.decryptKeystoreJson(json, password)
+			return { address: account.address, privateKey: account.privateKey }
+		} catch (error) {
+			console.error('解密 keystore 失败:', error)
+			throw new Error('keystore 密码错误或文件已损坏')
+		}
+	}
+
+	/**
+	 * 使用单独的密码将私钥加密为 v3 keystore JSON（scrypt）
+	 */
+	static async encryptKeystore(
+		privateKey: string,
+		password: string
+	): Promise<string> {
+		return ethers.encryptKeystoreJson(
+			{
+				address: this.privateKeyToAddress(privateKey),
+				privateKey
+			},
+			password
+		)
+	}
+
 	/**
 	 * 验证私钥格式是否正确
 	 */
@@ -168,36 +249,32 @@ export class CryptoService {
 	}
 
 	/**
-	 * 使用 AES-256 加密数据
+	 * 使用 AES-256-GCM 加密数据，密钥由所选 KDF 从密码派生
+	 * 算法和参数随密文一起保存，解密时无需额外配置
 	 */
-	static encrypt(
+	static async encrypt(
 		data: string,
-		password: string
-	): { encryptedData: string; salt: string; iv: string } {
+		password: string,
+		algorithm: KdfAlgorithm = 'scrypt'
+	): Promise<EncryptedData> {
 		try {
-			// 生成随机盐值
-			const salt = CryptoJS.lib.WordArray.random(256 / 8).toString()
-
-			// 使用 PBKDF2 从密码派生密钥
-			const key = CryptoJS.PBKDF2(password, salt, {
-				keySize: 256 / 32,
-				iterations: 100000
-			})
-
-			// 生成随机 IV
-			const iv = CryptoJS.lib.WordArray.random(128 / 8).toString()
-
-			// 加密数据
-			const encrypted = CryptoJS.AES.encrypt(data, key, {
-				iv: CryptoJS.enc.Hex.parse(iv),
-				mode: CryptoJS.mode.CBC,
-				padding: CryptoJS.pad.Pkcs7
-			})
+			const kdf = this.KDF_PARAMS[algorithm]
+			const salt = crypto.getRandomValues(new Uint8Array(32))
+			const iv = crypto.getRandomValues(new Uint8Array(12))
+
+			const key = await this.deriveAesKey(password, salt, kdf)
+			const ciphertext = await crypto.subtle.encrypt(
+				{ name: 'AES-GCM', iv },
+				key,
+				new TextEncoder().encode(data)
+			)
 
 			return {
-				encryptedData: encrypted.toString(),
-				salt: salt,
-				iv: iv
+				encryptedData: ethers.encodeBase64(new Uint8Array(ciphertext)),
+				salt: this.toHex(salt),
+				iv: this.toHex(iv),
+				cipher: 'aes-256-gcm',
+				kdf
 			}
 		} catch (error) {
 			console.error('加密失败:', error)
@@ -206,24 +283,97 @@ export class CryptoService {
 	}
 
 	/**
-	 * 使用 AES-256 解密数据
+	 * 解密数据，没有算法信息的记录按旧版 AES-CBC 解密
+	 */
+	static async decrypt(
+		record: EncryptedData,
+		password: string
+	): Promise<string> {
+		if (record.cipher !== 'aes-256-gcm' || !record.kdf) {
+			return this.decryptLegacy(record, password)
+		}
+
+		try {
+			const key = await this.deriveAesKey(
+				password,
+				this.fromHex(record.salt),
+				record.kdf
+			)
+			const plaintext = await crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv: this.fromHex(record.iv) },
+				key,
+				ethers.decodeBase64(record.encryptedData)
+			)
+			return new TextDecoder().decode(plaintext)
+		} catch (error) {
+			// GCM 认证失败：密码错误或密文被篡改
+			console.error('解密失败:', error)
+			throw new Error('数据解密失败，请检查密码是否正确')
+		}
+	}
+
+	/**
+	 * 密文是否需要使用当前算法和参数重新加密
+	 */
+	static needsReencryption(
+		record: EncryptedData,
+		algorithm: KdfAlgorithm
+	): boolean {
+		if (record.cipher !== 'aes-256-gcm' || !record.kdf) {
+			return true
+		}
+		const target = this.KDF_PARAMS[algorithm]
+		return Object.entries(target).some(
+			([name, value]) => record.kdf[name as keyof KdfParams] !== value
+		)
+	}
+
+	/**
+	 * 使用 KDF 派生 AES-GCM 密钥
 	 */
-	static decrypt(
-		encryptedData: string,
+	private static async deriveAesKey(
 		password: string,
-		salt: string,
-		iv: string
+		salt: Uint8Array,
+		kdf: KdfParams
+	): Promise<CryptoKey> {
+		const keyBytes =
+			kdf.algorithm === 'argon2id'
+				? await argon2idAsync(password, salt, {
+						t: kdf.t,
+						m: kdf.m,
+						p: kdf.p,
+						dkLen: 32
+					})
+				: await scryptAsync(password, salt, {
+						N: kdf.N,
+						r: kdf.r,
+						p: kdf.p,
+						dkLen: 32
+					})
+
+		return crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, [
+			'encrypt',
+			'decrypt'
+		])
+	}
+
+	/**
+	 * 解密旧版数据（crypto-js AES-256-CBC，PBKDF2 10 万次）
+	 */
+	private static decryptLegacy(
+		record: EncryptedData,
+		password: string
 	): string {
 		try {
 			// 使用相同的参数重新派生密钥
-			const key = CryptoJS.PBKDF2(password, salt, {
+			const key = CryptoJS.PBKDF2(password, record.salt, {
 				keySize: 256 / 32,
 				iterations: 100000
 			})
 
 			// 解密数据
-			const decrypted = CryptoJS.AES.decrypt(encryptedData, key, {
-				iv: CryptoJS.enc.Hex.parse(iv),
+			const decrypted = CryptoJS.AES.decrypt(record.encryptedData, key, {
+				iv: CryptoJS.enc.Hex.parse(record.iv),
 				mode: CryptoJS.mode.CBC,
 				padding: CryptoJS.pad.Pkcs7
 			})
@@ -241,6 +391,14 @@ export class CryptoService {
 		}
 	}
 
+	private static toHex(bytes: Uint8Array): string {
+		return ethers.hexlify(bytes).slice(2)
+	}
+
+	private static fromHex(hex: string): Uint8Array {
+		return ethers.getBytes('0x' + hex)
+	}
+
 	/**
 	 * 验证密码强度
 	 */
@@ -0,0 +1,400 @@
+import type { TokenInfo, TransactionRequest } from '~types/blockchain'
+import {
+	WalletError,
+	WalletErrorType,
+	type Keyring,
+	type WalletAccount,
+	type WalletSessionState
+} from '~types/wallet'
+
+import { AccountService } from './AccountService'
+import { CryptoService } from './CryptoService'
+import { NetworkService } from './NetworkService'
+import { PermissionService } from './PermissionService'
+import { SettingsService } from './SettingsService'
+import { transactionService } from './TransactionService'
+import { VaultService, type KeyringAccount } from './VaultService'
+
+/**
+ * 密钥环控制器（仅在后台运行）
+ * 解锁后的密钥环只保存在后台内存和 chrome.storage.session 中，
+ * popup 和确认窗口通过消息请求签名，不再持有私钥
+ */
+export class KeyringController {
+	// 会话存储键：浏览器关闭或锁定后清除，Service Worker 重启后可恢复
+	private static readonly SESSION_STORAGE_KEY = 'keyringSession'
+	// 账户扫描的最大派生索引，避免间隔设置过大时无限请求
+	private static readonly MAX_DISCOVERY_INDEX = 100
+
+	private keyrings: Keyring[] | null = null
+	// 密钥环派生出的账户（派生较慢，解锁或新增账户时刷新）
+	private keyringAccounts: KeyringAccount[] = []
+	// 只读的观察账户地址，不含密钥，锁定后仍保留
+	private watchAddresses: string[] = []
+	private selectedAddress: string | null = null
+
+	/**
+	 * Service Worker 重启后从会话存储恢复解锁状态
+	 */
+	async restoreSession(): Promise<void> {
+		const result = await chrome.storage.session.get(
+			KeyringController.SESSION_STORAGE_KEY
+		)
+		const keyrings = result[KeyringController.SESSION_STORAGE_KEY] as
+			| Keyring[]
+			| undefined
+		if (!keyrings) {
+			// 锁定状态下也加载观察账户，用于拒绝它们的签名请求
+			await AccountService.initialize()
+			this.refreshAccounts()
+			return
+		}
+
+		await this.activate(keyrings)
+		console.log('已恢复钱包会话')
+	}
+
+	/**
+	 * 新建保险库并进入解锁状态
+	 * 覆盖已有钱包时清除旧钱包的会话、账户和网站授权
+	 */
+	async createVault(
+		password: string,
+		keyrings: Keyring[]
+	): Promise<WalletSessionState> {
+		await this.reset()
+		await PermissionService.revokeAllPermissions()
+
+		await VaultService.createVault(password, keyrings)
+		await this.activate(keyrings)
+		await this.saveSession()
+		return this.getState()
+	}
+
+	/**
+	 * 使用密码解锁钱包
+	 */
+	async unlock(password: string): Promise<WalletSessionState> {
+		const keyrings = await VaultService.unlockVault(password)
+		await this.activate(keyrings)
+		await this.saveSession()
+		return this.getState()
+	}
+
+	/**
+	 * 修改保险库密码，会话中的密钥环不受影响
+	 */
+	async changePassword(
+		oldPassword: string,
+		newPassword: string
+	): Promise<void> {
+		this.assertUnlocked()
+		await VaultService.changePassword(oldPassword, newPassword)
+	}
+
+	/**
+	 * 重新验证密码后返回 HD 密钥环的助记词
+	 */
+	async revealMnemonic(password: string): Promise<string> {
+		await this.verifyPassword(password)
+
+		const mnemonic = VaultService.getMnemonic(this.keyrings || [])
+		if (!mnemonic) {
+			throw new Error('当前钱包没有助记词')
+		}
+		return mnemonic
+	}
+
+	/**
+	 * 重新验证密码后返回指定账户的私钥
+	 */
+	async exportPrivateKey(password: string, address: string): Promise<string> {
+		await this.verifyPassword(password)
+		return this.getPrivateKey(address)
+	}
+
+	/**
+	 * 重新验证密码后将指定账户导出为 v3 keystore JSON
+	 * @param keystorePassword keystore 文件单独使用的密码
+	 */
+	async exportKeystore(
+		password: string,
+		address: string,
+		keystorePassword: string
+	): Promise<string> {
+		const privateKey = await this.exportPrivateKey(password, address)
+		return CryptoService.encryptKeystore(privateKey, keystorePassword)
+	}
+
+	/**
+	 * 锁定钱包，清除内存和会话中的密钥
+	 */
+	async lock(): Promise<void> {
+		this.keyrings = null
+		this.keyringAccounts = []
+		AccountService.setMnemonic('')
+		await chrome.storage.session.remove(
+			KeyringController.SESSION_STORAGE_KEY
+		)
+	}
+
+	/**
+	 * 锁定并清除内存和存储中的账户状态（新建或清除钱包时使用）
+	 */
+	async reset(): Promise<void> {
+		await this.lock()
+		this.watchAddresses = []
+		this.selectedAddress = null
+		await AccountService.reset()
+	}
+
+	isUnlocked(): boolean {
+		return this.keyrings !== null
+	}
+
+	/**
+	 * 当前会话状态（不含密钥）
+	 */
+	getState(): WalletSessionState {
+		return {
+			isUnlocked: this.isUnlocked(),
+			selectedAddress: this.selectedAddress,
+			accounts: this.keyringAccounts.map((account) => account.address)
+		}
+	}
+
+	/**
+	 * 切换当前账户
+	 */
+	async selectAccount(address: string): Promise<string> {
+		const selected =
+			this.findAccount(address)?.address ||
+			this.watchAddresses.find(
+				(item) => item.toLowerCase() === address.toLowerCase()
+			)
+		if (!selected) {
+			throw new Error('账户不存在')
+		}
+		this.selectedAddress = selected
+		await AccountService.setSelectedAddress(selected)
+		return selected
+	}
+
+	/**
+	 * 添加只读的观察账户
+	 */
+	async addWatchAccount(
+		address: string,
+		ensName?: string
+	): Promise<WalletAccount> {
+		this.assertUnlocked()
+
+		await AccountService.initialize()
+		const account = await AccountService.addWatchAccount(address, ensName)
+		this.refreshAccounts()
+		return account
+	}
+
+	/**
+	 * 移除观察账户，当前选中时切换到第一个密钥环账户
+	 */
+	async removeWatchAccount(address: string): Promise<WalletSessionState> {
+		this.assertUnlocked()
+
+		await AccountService.initialize()
+		await AccountService.removeWatchAccount(address)
+		this.refreshAccounts()
+		if (
+			this.selectedAddress?.toLowerCase() === address.toLowerCase() &&
+			this.keyringAccounts[0]
+		) {
+			await this.selectAccount(this.keyringAccounts[0].address)
+		}
+		return this.getState()
+	}
+
+	/**
+	 * 是否为只读的观察账户（不能签名）
+	 */
+	isWatchOnly(address: string): boolean {
+		return this.watchAddresses.some(
+			(item) => item.toLowerCase() === address.toLowerCase()
+		)
+	}
+
+	/**
+	 * 从 HD 密钥环派生下一个账户
+	 */
+	async addHdAccount(): Promise<WalletAccount> {
+		this.assertUnlocked()
+
+		// popup 可能修改过账户名称等信息，先从存储重新加载
+		await AccountService.initialize()
+		const account = await AccountService.addHdAccount()
+		this.refreshAccounts()
+		return account
+	}
+
+	/**
+	 * 扫描 HD 密钥环中使用过的账户（有交易或余额）
+	 * 按顺序派生地址，连续未使用的地址达到间隔上限后停止，返回新添加的账户
+	 */
+	async discoverHdAccounts(): Promise<WalletAccount[]> {
+		this.assertUnlocked()
+		const hdKeyring = VaultService.getHdKeyring(this.keyrings || [])
+		if (!hdKeyring) {
+			return []
+		}
+
+		const { accountDiscoveryGapLimit: gapLimit } =
+			await SettingsService.getSettings()
+		const usedIndexes = new Set<number>()
+		let lastUsedIndex = -1
+		let nextIndex = 0
+
+		while (
+			nextIndex - lastUsedIndex <= gapLimit &&
+			nextIndex < KeyringController.MAX_DISCOVERY_INDEX
+		) {
+			const batch = AccountService.deriveAccountsFromMnemonic(
+				hdKeyring.mnemonic,
+				gapLimit,
+				nextIndex,
+				hdKeyring.passphrase
+			)
+			if (batch.length === 0) {
+				break
+			}
+
+			const activity = await Promise.all(
+				batch.map((account) =>
+					NetworkService.hasActivity(account.address)
+				)
+			)
+			batch.forEach((account, i) => {
+				if (activity[i]) {
+					usedIndexes.add(account.index)
+					lastUsedIndex = Math.max(lastUsedIndex, account.index)
+				}
+			})
+			nextIndex += batch.length
+		}
+
+		// HD 账户按索引连续派生，中间未使用的账户默认隐藏
+		await AccountService.initialize()
+		const discovered: WalletAccount[] = []
+		while (AccountService.getHdAccountCount(0) <= lastUsedIndex) {
+			const account = await AccountService.addHdAccount()
+			if (usedIndexes.has(account.index)) {
+				discovered.push(account)
+			} else {
+				await AccountService.setAccountHidden(account.address, true)
+			}
+		}
+
+		this.refreshAccounts()
+		return discovered
+	}
+
+	/**
+	 * 使用指定账户进行 personal_sign 签名
+	 */
+	async signMessage(address: string, message: string): Promise<string> {
+		return CryptoService.signMessage(this.getPrivateKey(address), message)
+	}
+
+	/**
+	 * 使用指定账户签名并发送交易，返回交易哈希
+	 */
+	async sendTransaction(
+		address: string,
+		transaction: TransactionRequest,
+		token?: TokenInfo
+	): Promise<string> {
+		return transactionService.signAndSendTransaction(
+			transaction,
+			this.getPrivateKey(address),
+			token
+		)
+	}
+
+	/**
+	 * 设置解锁后的密钥环，并同步账户列表和当前账户
+	 */
+	private async activate(keyrings: Keyring[]): Promise<void> {
+		this.keyrings = keyrings
+
+		await AccountService.initialize()
+		const hdKeyring = VaultService.getHdKeyring(keyrings)
+		AccountService.setMnemonic(
+			hdKeyring?.mnemonic || '',
+			hdKeyring?.passphrase
+		)
+		this.refreshAccounts()
+		await AccountService.syncWithKeyrings(this.keyringAccounts)
+
+		// 恢复上次选中的账户（包括观察账户），不存在时使用第一个账户
+		const storedAddress = await AccountService.getSelectedAddress()
+		const selected =
+			storedAddress &&
+			(this.findAccount(storedAddress) || this.isWatchOnly(storedAddress))
+				? storedAddress
+				: this.keyringAccounts[0]?.address
+		if (selected) {
+			await this.selectAccount(selected)
+		}
+	}
+
+	private async saveSession(): Promise<void> {
+		await chrome.storage.session.set({
+			[KeyringController.SESSION_STORAGE_KEY]: this.keyrings
+		})
+	}
+
+	private refreshAccounts(): void {
+		this.watchAddresses = AccountService.getAccounts()
+			.filter((account) => account.type === 'watch')
+			.map((account) => account.address)
+		this.keyringAccounts = this.keyrings
+			? VaultService.getAccounts(
+					this.keyrings,
+					AccountService.getHdAccountCount()
+				)
+			: []
+	}
+
+	private findAccount(address: string): KeyringAccount | undefined {
+		return this.keyringAccounts.find(
+			(account) => account.address.toLowerCase() === address.toLowerCase()
+		)
+	}
+
+	private getPrivateKey(address: string): string {
+		this.assertUnlocked()
+
+		if (this.isWatchOnly(address)) {
+			throw new Error('观察账户只读，没有可用的私钥')
+		}
+
+		const account = this.findAccount(address)
+		if (!account) {
+			throw new Error('钱包中没有请求的账户')
+		}
+		return account.privateKey
+	}
+
+	// 导出密钥前要求重新输入密码，即使会话已解锁
+	private async verifyPassword(password: string): Promise<void> {
+		this.assertUnlocked()
+		await VaultService.unlockVault(password)
+	}
+
+	private assertUnlocked(): void {
+		if (!this.isUnlocked()) {
+			throw new WalletError(WalletErrorType.WALLET_LOCKED, '钱包已锁定')
+		}
+	}
+}
+
+// 导出单例实例
+export const keyringController = new KeyringController()
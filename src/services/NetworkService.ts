@@ -120,6 +120,29 @@ export class NetworkService {
 		}
 	}
 
+	/**
+	 * 解析 ENS 名称，未注册时返回 null
+	 */
+	static async resolveName(name: string): Promise<string | null> {
+		try {
+			return await this.getProvider().resolveName(name)
+		} catch (error) {
+			console.error('ENS 解析失败:', error)
+			throw new Error(`ENS 解析失败: ${error.message}`)
+		}
+	}
+
+	/**
+	 * 地址是否使用过（发送过交易或持有余额）
+	 */
+	static async hasActivity(address: string): Promise<boolean> {
+		const [nonce, balance] = await Promise.all([
+			this.getTransactionCount(address),
+			this.getBalance(address)
+		])
+		return nonce > 0 || ethers.parseEther(balance) > 0n
+	}
+
 	/**
 	 * 获取当前 Gas 价格
 	 */
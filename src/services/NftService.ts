@@ -0,0 +1,506 @@
+import { ethers } from 'ethers'
+
+import {
+	ERC721_ABI,
+	ERC721_ENUMERABLE_INTERFACE_ID,
+	ERC1155_ABI
+} from '~config/tokens'
+import type {
+	BlockchainErrorType,
+	LogScanState,
+	MulticallCall,
+	MulticallResult,
+	NftAttribute,
+	NftIndexer,
+	NftScanResult,
+	NftTokenType,
+	UserNFT
+} from '~types/blockchain'
+import { BlockchainError } from '~types/blockchain'
+import { toGatewayUrl } from '~utils/utils'
+
+import { blockchainService } from './BlockchainService'
+import { ChainbaseNftIndexer } from './ChainbaseNftIndexer'
+import { NetworkService } from './NetworkService'
+
+// 缓存已扫描的区块范围和日志中发现的 NFT
+const NFT_SCANS_STORAGE_KEY = 'nftScans'
+// 每次 Multicall 确认的 NFT 数量
+const CONFIRM_BATCH_SIZE = 100
+// 可枚举合约最多列出的 NFT 数量
+const MAX_ENUMERATED_TOKENS = 100
+// 读取元数据的超时时间
+const METADATA_TIMEOUT = 10000
+
+// 日志中转入账户的 NFT，当前是否仍然持有需要到链上确认
+interface NftCandidate {
+	contract: string
+	tokenId: string
+	tokenType: NftTokenType
+	blockNumber: number
+}
+
+// tokenURI/uri 指向的 JSON 元数据（OpenSea 元数据标准）
+interface NftMetadata {
+	name?: string
+	description?: string
+	// 元数据由合约方提供，字段类型不可信
+	image?: unknown
+	image_url?: unknown
+	attributes?: NftAttribute[]
+}
+
+/**
+ * NFT 服务
+ * 通过 Transfer/TransferSingle/TransferBatch 日志找出转入账户的 NFT，再用 ownerOf/balanceOf 确认持有
+ * 注册了支持当前网络的索引服务时优先使用索引服务
+ */
+export class NftService {
+	private readonly erc721 = new ethers.Interface(ERC721_ABI)
+	private readonly erc1155 = new ethers.Interface(ERC1155_ABI)
+	private readonly transferTopic = this.erc721.getEvent('Transfer')!.topicHash
+	private readonly transferSingleTopic =
+		this.erc1155.getEvent('TransferSingle')!.topicHash
+	private readonly transferBatchTopic =
+		this.erc1155.getEvent('TransferBatch')!.topicHash
+	private readonly indexers: NftIndexer[] = []
+	private readonly metadataCache = new Map<string, NftMetadata>()
+
+	/**
+	 * 注册 NFT 索引服务
+	 */
+	registerIndexer(indexer: NftIndexer): void {
+		this.indexers.push(indexer)
+	}
+
+	/**
+	 * 获取账户在当前网络上持有的 NFT
+	 * 日志扫描进度会缓存，之后只查询新区块；scanOlder 为 true 时继续向前扫描一段区块
+	 */
+	async getNfts(
+		owner: string,
+		scanOlder: boolean = false
+	): Promise<NftScanResult> {
+		this.validateAddress(owner)
+		const { chainId } = blockchainService.getCurrentNetwork()
+
+		for (const indexer of this.indexers) {
+			if (!indexer.supportsChain(chainId)) {
+				continue
+			}
+			try {
+				return {
+					nfts: await indexer.getNfts(owner, chainId),
+					source: indexer.name
+				}
+			} catch (error) {
+				console.warn(
+					`${indexer.name} 查询 NFT 失败，改为扫描链上日志:`,
+					error
+				)
+			}
+		}
+
+		const state =
+			await blockchainService.scanLogsIncrementally<NftCandidate>(
+				NFT_SCANS_STORAGE_KEY,
+				owner,
+				scanOlder,
+				(fromBlock, toBlock, scanState) =>
+					this.scanLogs(owner, fromBlock, toBlock, scanState)
+			)
+
+		return {
+			nfts: await this.loadNfts(owner, state.candidates),
+			source: '链上日志',
+			fromBlock: state.fromBlock,
+			toBlock: state.toBlock
+		}
+	}
+
+	/**
+	 * 获取账户在指定合约中持有的 NFT
+	 * 合约支持 ERC-721 可枚举扩展时直接从链上列出，否则从已发现的 NFT 中筛选
+	 */
+	async getContractNfts(owner: string, contract: string): Promise<UserNFT[]> {
+		this.validateAddress(owner)
+		this.validateAddress(contract)
+
+		if (!(await NetworkService.isContract(contract))) {
+			throw new BlockchainError(
+				'CONTRACT_ERROR' as BlockchainErrorType,
+				'该地址不是合约地址'
+			)
+		}
+
+		const [enumerable, balance] = await blockchainService.multicall([
+			{
+				target: contract,
+				callData: this.erc721.encodeFunctionData('supportsInterface', [
+					ERC721_ENUMERABLE_INTERFACE_ID
+				])
+			},
+			{
+				target: contract,
+				callData: this.erc721.encodeFunctionData('balanceOf', [owner])
+			}
+		])
+
+		if (
+			!blockchainService.decodeMulticallResult<boolean>(
+				this.erc721,
+				'supportsInterface',
+				enumerable
+			)
+		) {
+			const { nfts } = await this.getNfts(owner)
+			return nfts.filter(
+				(nft) => nft.contract.toLowerCase() === contract.toLowerCase()
+			)
+		}
+
+		const count = Math.min(
+			Number(
+				blockchainService.decodeMulticallResult<bigint>(
+					this.erc721,
+					'balanceOf',
+					balance
+				) || 0n
+			),
+			MAX_ENUMERATED_TOKENS
+		)
+		const results = await blockchainService.multicall(
+			Array.from({ length: count }, (_, index) => ({
+				target: contract,
+				callData: this.erc721.encodeFunctionData(
+					'tokenOfOwnerByIndex',
+					[owner, index]
+				)
+			}))
+		)
+
+		const candidates: NftCandidate[] = []
+		for (const result of results) {
+			const tokenId = blockchainService.decodeMulticallResult<bigint>(
+				this.erc721,
+				'tokenOfOwnerByIndex',
+				result
+			)
+			if (tokenId !== undefined) {
+				candidates.push({
+					contract: ethers.getAddress(contract),
+					tokenId: tokenId.toString(),
+					tokenType: 'ERC721',
+					blockNumber: 0
+				})
+			}
+		}
+		return this.loadNfts(owner, candidates)
+	}
+
+	// 分段查询转入账户的 NFT 日志，把发现的 NFT 合并到扫描状态中
+	private async scanLogs(
+		owner: string,
+		fromBlock: number,
+		toBlock: number,
+		state: LogScanState<NftCandidate>
+	): Promise<void> {
+		const ownerTopic = ethers.zeroPadValue(owner, 32)
+		const candidates = new Map(
+			state.candidates.map((candidate) => [
+				this.getCandidateKey(candidate),
+				candidate
+			])
+		)
+		const addCandidate = (candidate: NftCandidate) => {
+			const key = this.getCandidateKey(candidate)
+			const existing = candidates.get(key)
+			if (!existing || existing.blockNumber < candidate.blockNumber) {
+				candidates.set(key, candidate)
+			}
+		}
+
+		// ERC-721 Transfer 的接收方是第二个索引参数
+		const transferLogs = await blockchainService.getLogs(
+			{ topics: [this.transferTopic, null, ownerTopic] },
+			fromBlock,
+			toBlock
+		)
+		for (const log of transferLogs) {
+			// ERC-20 的 Transfer 事件签名相同，但 amount 没有被索引（3 个 topic）
+			if (log.topics.length !== 4) {
+				continue
+			}
+			addCandidate({
+				contract: ethers.getAddress(log.address),
+				tokenId: BigInt(log.topics[3]).toString(),
+				tokenType: 'ERC721',
+				blockNumber: log.blockNumber
+			})
+		}
+
+		// ERC-1155 的接收方是第三个索引参数
+		const erc1155Logs = await blockchainService.getLogs(
+			{
+				topics: [
+					[this.transferSingleTopic, this.transferBatchTopic],
+					null,
+					null,
+					ownerTopic
+				]
+			},
+			fromBlock,
+			toBlock
+		)
+		for (const log of erc1155Logs) {
+			const event = this.erc1155.parseLog(log)
+			if (!event) {
+				continue
+			}
+			const ids: bigint[] =
+				event.name === 'TransferSingle'
+					? [event.args.id]
+					: Array.from(event.args.ids)
+			for (const id of ids) {
+				addCandidate({
+					contract: ethers.getAddress(log.address),
+					tokenId: id.toString(),
+					tokenType: 'ERC1155',
+					blockNumber: log.blockNumber
+				})
+			}
+		}
+
+		state.candidates = Array.from(candidates.values())
+	}
+
+	// 到链上确认账户仍然持有，并读取合约名称和元数据
+	private async loadNfts(
+		owner: string,
+		candidates: NftCandidate[]
+	): Promise<UserNFT[]> {
+		const collections = await this.getCollectionNames(
+			Array.from(
+				new Set(candidates.map((candidate) => candidate.contract))
+			)
+		)
+		const nfts: UserNFT[] = []
+
+		for (let i = 0; i < candidates.length; i += CONFIRM_BATCH_SIZE) {
+			const batch = candidates.slice(i, i + CONFIRM_BATCH_SIZE)
+			// 每个 NFT 2 个调用：当前持有情况、元数据地址
+			const results = await blockchainService.multicall(
+				batch.flatMap((candidate) =>
+					this.getOwnershipCalls(owner, candidate)
+				)
+			)
+
+			const loaded = await Promise.all(
+				batch.map((candidate, index) =>
+					this.toUserNft(
+						owner,
+						candidate,
+						collections.get(candidate.contract) || '',
+						results.slice(index * 2, index * 2 + 2)
+					)
+				)
+			)
+			nfts.push(...loaded.filter((nft): nft is UserNFT => nft !== null))
+		}
+
+		// 最近转入的排在最前
+		const blockNumbers = new Map(
+			candidates.map((candidate) => [
+				this.getCandidateKey(candidate),
+				candidate.blockNumber
+			])
+		)
+		return nfts.sort(
+			(a, b) =>
+				(blockNumbers.get(this.getCandidateKey(b)) || 0) -
+				(blockNumbers.get(this.getCandidateKey(a)) || 0)
+		)
+	}
+
+	private getOwnershipCalls(
+		owner: string,
+		candidate: NftCandidate
+	): MulticallCall[] {
+		const target = candidate.contract
+		if (candidate.tokenType === 'ERC721') {
+			return [
+				{
+					target,
+					callData: this.erc721.encodeFunctionData('ownerOf', [
+						candidate.tokenId
+					])
+				},
+				{
+					target,
+					callData: this.erc721.encodeFunctionData('tokenURI', [
+						candidate.tokenId
+					])
+				}
+			]
+		}
+		return [
+			{
+				target,
+				callData: this.erc1155.encodeFunctionData('balanceOf', [
+					owner,
+					candidate.tokenId
+				])
+			},
+			{
+				target,
+				callData: this.erc1155.encodeFunctionData('uri', [
+					candidate.tokenId
+				])
+			}
+		]
+	}
+
+	private async toUserNft(
+		owner: string,
+		candidate: NftCandidate,
+		collection: string,
+		[ownership, uriResult]: MulticallResult[]
+	): Promise<UserNFT | null> {
+		let balance: string | undefined
+		let uri: string | undefined
+
+		if (candidate.tokenType === 'ERC721') {
+			const currentOwner =
+				blockchainService.decodeMulticallResult<string>(
+					this.erc721,
+					'ownerOf',
+					ownership
+				)
+			if (currentOwner?.toLowerCase() !== owner.toLowerCase()) {
+				return null
+			}
+			uri = blockchainService.decodeMulticallResult<string>(
+				this.erc721,
+				'tokenURI',
+				uriResult
+			)
+		} else {
+			const amount = blockchainService.decodeMulticallResult<bigint>(
+				this.erc1155,
+				'balanceOf',
+				ownership
+			)
+			if (!amount) {
+				return null
+			}
+			balance = amount.toString()
+			uri = blockchainService.decodeMulticallResult<string>(
+				this.erc1155,
+				'uri',
+				uriResult
+			)
+		}
+
+		const metadata = await this.fetchMetadata(uri, candidate.tokenId)
+		return {
+			tokenId: candidate.tokenId,
+			contract: candidate.contract,
+			name:
+				metadata.name || `${collection || 'NFT'} #${candidate.tokenId}`,
+			description: metadata.description || '',
+			image: toGatewayUrl(this.getMetadataImage(metadata)),
+			collection,
+			chainId: blockchainService.getCurrentNetwork().chainId,
+			tokenType: candidate.tokenType,
+			balance,
+			attributes: Array.isArray(metadata.attributes)
+				? metadata.attributes
+				: undefined
+		}
+	}
+
+	private getMetadataImage(metadata: NftMetadata): string {
+		const image = [metadata.image, metadata.image_url].find(
+			(value): value is string => typeof value === 'string' && !!value
+		)
+		return image || ''
+	}
+
+	private async fetchMetadata(
+		uri: string | undefined,
+		tokenId: string
+	): Promise<NftMetadata> {
+		if (!uri) {
+			return {}
+		}
+
+		// ERC-1155 元数据地址中的 {id} 替换为 64 位十六进制 tokenId
+		const url = toGatewayUrl(
+			uri.replace('{id}', BigInt(tokenId).toString(16).padStart(64, '0'))
+		)
+		const cached = this.metadataCache.get(url)
+		if (cached) {
+			return cached
+		}
+
+		try {
+			// fetch 同样支持 data: 形式的链上元数据
+			const response = await fetch(url, {
+				signal: AbortSignal.timeout(METADATA_TIMEOUT)
+			})
+			const metadata: NftMetadata = await response.json()
+			this.metadataCache.set(url, metadata)
+			return metadata
+		} catch (error) {
+			console.warn(`读取 NFT 元数据失败: ${url}`, error)
+			return {}
+		}
+	}
+
+	private async getCollectionNames(
+		contracts: string[]
+	): Promise<Map<string, string>> {
+		const results = await blockchainService.multicall(
+			contracts.map((target) => ({
+				target,
+				callData: this.erc721.encodeFunctionData('name')
+			}))
+		)
+		return new Map(
+			contracts.map((contract, index) => [
+				contract,
+				blockchainService.decodeMulticallResult<string>(
+					this.erc721,
+					'name',
+					results[index]
+				) || ''
+			])
+		)
+	}
+
+	private validateAddress(address: string): void {
+		if (!ethers.isAddress(address)) {
+			throw new BlockchainError(
+				'INVALID_ADDRESS' as BlockchainErrorType,
+				'无效的地址格式'
+			)
+		}
+	}
+
+	private getCandidateKey(nft: {
+		contract: string
+		tokenId: string
+	}): string {
+		return `${nft.contract}:${nft.tokenId}`.toLowerCase()
+	}
+}
+
+// 导出单例实例
+export const nftService = new NftService()
+
+// 配置了 Chainbase API Key 时优先使用索引服务
+if (process.env.PLASMO_PUBLIC_CHAINBASE_API_KEY) {
+	nftService.registerIndexer(
+		new ChainbaseNftIndexer(process.env.PLASMO_PUBLIC_CHAINBASE_API_KEY)
+	)
+}
@@ -0,0 +1,173 @@
+import type {
+	DappPermission,
+	PermissionCaveat,
+	Web3WalletPermission
+} from '~types/provider'
+
+import { StorageService } from './StorageService'
+
+// Dapp 权限服务（EIP-2255），按来源保存已授权的账户
+export class PermissionService {
+	private static readonly PERMISSIONS_KEY = 'dappPermissions'
+	// 目前唯一支持的权限
+	static readonly ETH_ACCOUNTS = 'eth_accounts'
+	// 限制可返回账户的 caveat 类型
+	static readonly RESTRICT_RETURNED_ACCOUNTS = 'restrictReturnedAccounts'
+	// 活跃时间的最小写入间隔，避免频繁的只读请求反复写存储
+	private static readonly ACTIVITY_UPDATE_INTERVAL = 60 * 1000
+	// 所有写入按顺序执行，避免并发的读-改-写覆盖彼此（如撤销后又被活跃时间写回）
+	private static writeQueue: Promise<unknown> = Promise.resolve()
+
+	/**
+	 * 获取所有来源的授权记录
+	 */
+	static async getAllPermissions(): Promise<Record<string, DappPermission>> {
+		return (
+			(await StorageService.getItem<Record<string, DappPermission>>(
+				this.PERMISSIONS_KEY
+			)) || {}
+		)
+	}
+
+	/**
+	 * 获取指定来源的授权记录
+	 */
+	static async getPermission(origin: string): Promise<DappPermission | null> {
+		const permissions = await this.getAllPermissions()
+		return permissions[origin] || null
+	}
+
+	/**
+	 * 获取指定来源被授权的账户
+	 */
+	static async getPermittedAccounts(origin: string): Promise<string[]> {
+		const permission = await this.getPermission(origin)
+		return permission?.accounts || []
+	}
+
+	/**
+	 * 为来源授予账户访问权限，已有记录时覆盖账户列表
+	 */
+	static async grantPermission(
+		origin: string,
+		accounts: string[],
+		favicon?: string
+	): Promise<DappPermission> {
+		return this.updatePermissions((permissions) => {
+			const caveats: PermissionCaveat[] = [
+				{ type: this.RESTRICT_RETURNED_ACCOUNTS, value: accounts }
+			]
+
+			permissions[origin] = {
+				origin,
+				accounts,
+				grantedAt: Date.now(),
+				caveats,
+				favicon: favicon || permissions[origin]?.favicon,
+				lastActiveAt: Date.now()
+			}
+			return permissions[origin]
+		})
+	}
+
+	/**
+	 * 重新分配来源可见的账户，保留原授权时间
+	 */
+	static async updatePermittedAccounts(
+		origin: string,
+		accounts: string[]
+	): Promise<DappPermission | null> {
+		return this.updatePermissions((permissions) => {
+			const permission = permissions[origin]
+			if (!permission) {
+				return null
+			}
+
+			permissions[origin] = {
+				...permission,
+				accounts,
+				caveats: [
+					{ type: this.RESTRICT_RETURNED_ACCOUNTS, value: accounts }
+				]
+			}
+			return permissions[origin]
+		})
+	}
+
+	/**
+	 * 记录来源的最近活跃时间
+	 */
+	static async recordActivity(origin: string): Promise<void> {
+		const permission = await this.getPermission(origin)
+		if (
+			!permission ||
+			Date.now() - (permission.lastActiveAt || 0) <
+				this.ACTIVITY_UPDATE_INTERVAL
+		) {
+			return
+		}
+
+		// 写入时重新读取，授权可能已在排队期间被撤销
+		await this.updatePermissions((permissions) => {
+			if (permissions[origin]) {
+				permissions[origin].lastActiveAt = Date.now()
+			}
+		})
+	}
+
+	/**
+	 * 撤销指定来源的所有权限
+	 */
+	static async revokePermission(origin: string): Promise<void> {
+		await this.updatePermissions((permissions) => {
+			delete permissions[origin]
+		})
+	}
+
+	/**
+	 * 撤销所有来源的权限
+	 */
+	static async revokeAllPermissions(): Promise<void> {
+		await this.enqueueWrite(() =>
+			StorageService.removeItem(this.PERMISSIONS_KEY)
+		)
+	}
+
+	// 在写入队列中读取、修改并保存授权记录
+	private static updatePermissions<T>(
+		updater: (permissions: Record<string, DappPermission>) => T
+	): Promise<T> {
+		return this.enqueueWrite(async () => {
+			const permissions = await this.getAllPermissions()
+			const result = updater(permissions)
+			await StorageService.setItem(this.PERMISSIONS_KEY, permissions)
+			return result
+		})
+	}
+
+	private static enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+		const result = this.writeQueue.then(write)
+		// 单次写入失败不影响之后的写入
+		this.writeQueue = result.catch(() => {})
+		return result
+	}
+
+	/**
+	 * 转换为 EIP-2255 权限对象
+	 */
+	static toWeb3WalletPermissions(
+		permission: DappPermission | null
+	): Web3WalletPermission[] {
+		if (!permission) {
+			return []
+		}
+		return [
+			{
+				invoker: permission.origin,
+				parentCapability: this.ETH_ACCOUNTS,
+				caveats: permission.caveats,
+				date: permission.grantedAt
+			}
+		]
+	}
+}
@@ -0,0 +1,193 @@
+import {
+	ProviderErrorCode,
+	ProviderRpcError,
+	type ApprovalRequest,
+	type ApprovalType
+} from '~types/provider'
+
+// 队列中的请求，resolve/reject 对应发起请求的那次 RPC 调用
+interface QueuedRequest extends ApprovalRequest {
+	resolve: (result: unknown) => void
+	reject: (error: ProviderRpcError) => void
+}
+
+// 用户拒绝时返回给 Dapp 的错误信息
+const REJECT_MESSAGES: Record<ApprovalType, string> = {
+	connect: '用户拒绝了连接请求',
+	transaction: '用户拒绝了交易',
+	sign: '用户拒绝了签名',
+	watchAsset: '用户拒绝了添加代币',
+	switchChain: '用户拒绝了切换网络'
+}
+
+/**
+ * 待确认请求队列服务
+ * 按来源排队保存 Dapp 请求（仅在内存中，回调无法序列化），并在扩展图标上显示待处理数量
+ */
+export class RequestQueueService {
+	// 请求过期时间：10 分钟
+	private static readonly REQUEST_TTL = 10 * 60 * 1000
+
+	// 按来源分组的请求队列
+	private queues: Map<string, QueuedRequest[]> = new Map()
+	private expiryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+	private changeCallbacks: Array<(requests: ApprovalRequest[]) => void> = []
+
+	/**
+	 * 加入队列，用户处理后返回结果
+	 */
+	enqueue(
+		type: ApprovalType,
+		origin: string,
+		payload: any,
+		tabId?: number
+	): Promise<unknown> {
+		return new Promise((resolve, reject) => {
+			const createdAt = Date.now()
+			const request: QueuedRequest = {
+				id: crypto.randomUUID(),
+				type,
+				origin,
+				payload,
+				tabId,
+				createdAt,
+				expiresAt: createdAt + RequestQueueService.REQUEST_TTL,
+				resolve,
+				reject
+			}
+
+			const queue = this.queues.get(origin) || []
+			queue.push(request)
+			this.queues.set(origin, queue)
+
+			this.expiryTimers.set(
+				request.id,
+				setTimeout(
+					() => this.reject(request.id, '请求已过期'),
+					RequestQueueService.REQUEST_TTL
+				)
+			)
+
+			this.notifyChange()
+		})
+	}
+
+	/**
+	 * 获取所有待处理请求（按来源分组，组内按时间排序）
+	 */
+	getPendingRequests(): ApprovalRequest[] {
+		return Array.from(this.queues.values()).flatMap((queue) =>
+			queue.map(({ resolve, reject, ...request }) => request)
+		)
+	}
+
+	/**
+	 * 待处理请求数量
+	 */
+	get size(): number {
+		let count = 0
+		this.queues.forEach((queue) => (count += queue.length))
+		return count
+	}
+
+	/**
+	 * 用户确认请求，返回请求是否仍然存在
+	 */
+	approve(id: string, result?: unknown): boolean {
+		const request = this.remove(id)
+		if (!request) {
+			return false
+		}
+		request.resolve(result ?? null)
+		this.notifyChange()
+		return true
+	}
+
+	/**
+	 * 拒绝请求（4001），返回请求是否仍然存在
+	 */
+	reject(id: string, message?: string): boolean {
+		const request = this.remove(id)
+		if (!request) {
+			return false
+		}
+		request.reject(
+			new ProviderRpcError(
+				ProviderErrorCode.USER_REJECTED,
+				message || REJECT_MESSAGES[request.type]
+			)
+		)
+		this.notifyChange()
+		return true
+	}
+
+	/**
+	 * 拒绝所有待处理的请求
+	 */
+	rejectAll(message?: string): void {
+		this.getPendingRequests().forEach((request) =>
+			this.reject(request.id, message)
+		)
+	}
+
+	/**
+	 * 标签页关闭时拒绝该页面发起的请求
+	 */
+	rejectByTab(tabId: number): void {
+		this.getPendingRequests()
+			.filter((request) => request.tabId === tabId)
+			.forEach((request) =>
+				this.reject(request.id, '发起请求的页面已关闭')
+			)
+	}
+
+	/**
+	 * 监听队列变化
+	 */
+	onChange(callback: (requests: ApprovalRequest[]) => void): void {
+		this.changeCallbacks.push(callback)
+	}
+
+	/**
+	 * 从队列中移除请求
+	 */
+	private remove(id: string): QueuedRequest | null {
+		for (const [origin, queue] of this.queues) {
+			const index = queue.findIndex((request) => request.id === id)
+			if (index === -1) {
+				continue
+			}
+
+			const [request] = queue.splice(index, 1)
+			if (queue.length === 0) {
+				this.queues.delete(origin)
+			}
+
+			clearTimeout(this.expiryTimers.get(id))
+			this.expiryTimers.delete(id)
+			return request
+		}
+		return null
+	}
+
+	/**
+	 * 更新角标并通知监听者
+	 */
+	private notifyChange(): void {
+		const count = this.size
+		chrome.action.setBadgeText({ text: count > 0 ? String(count) : '' })
+		chrome.action.setBadgeBackgroundColor({ color: '#f59e0b' })
+
+		const requests = this.getPendingRequests()
+		this.changeCallbacks.forEach((callback) => {
+			try {
+				callback(requests)
+			} catch (error) {
+				console.error('请求队列回调执行失败:', error)
+			}
+		})
+	}
+}
+
+// 导出单例实例
+export const requestQueueService = new RequestQueueService()
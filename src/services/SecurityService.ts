@@ -1,7 +1,12 @@
+import { sendBackgroundMessage } from '~utils/messaging'
+
 /**
  * 安全服务 - 处理敏感数据的内存清理和安全操作
  */
 export class SecurityService {
+	// 敏感数据在剪贴板中保留的时间
+	static readonly CLIPBOARD_CLEAR_MS = 30 * 1000
+
 	/**
 	 * 清理字符串变量的内存
 	 * 通过覆写内存来确保敏感数据不会残留
@@ -128,6 +133,15 @@ export class SecurityService {
 		console.log('助记词内存清理完成')
 	}
 
+	/**
+	 * 复制敏感数据到剪贴板，超时后由后台自动清空
+	 * popup 失去焦点就会关闭，定时器必须放在后台
+	 */
+	static async copySensitive(text: string): Promise<void> {
+		await navigator.clipboard.writeText(text)
+		await sendBackgroundMessage('SCHEDULE_CLIPBOARD_CLEAR')
+	}
+
 	/**
 	 * 页面卸载时的全局清理
 	 */
@@ -0,0 +1,75 @@
+import type { WalletSettings } from '~types/wallet'
+
+// 钱包设置服务
+export class SettingsService {
+	private static readonly SETTINGS_KEY = 'walletSettings'
+
+	// 安全策略：会话空闲最长 15 分钟
+	static readonly MAX_AUTO_LOCK_MINUTES = 15
+
+	static readonly DEFAULT_SETTINGS: WalletSettings = {
+		injectLegacyProvider: false,
+		autoLockMinutes: SettingsService.MAX_AUTO_LOCK_MINUTES,
+		wipeAfterFailedAttempts: 0,
+		vaultKdf: 'scrypt',
+		accountDiscoveryGapLimit: 5
+	}
+
+	/**
+	 * 获取钱包设置（缺失的字段使用默认值）
+	 */
+	static async getSettings(): Promise<WalletSettings> {
+		try {
+			const result = await chrome.storage.local.get(this.SETTINGS_KEY)
+			const settings: WalletSettings = {
+				...this.DEFAULT_SETTINGS,
+				...(result[this.SETTINGS_KEY] || {})
+			}
+			return {
+				...settings,
+				autoLockMinutes: this.clampAutoLockMinutes(
+					settings.autoLockMinutes
+				)
+			}
+		} catch (error) {
+			console.error('获取钱包设置失败:', error)
+			return { ...this.DEFAULT_SETTINGS }
+		}
+	}
+
+	/**
+	 * 更新部分钱包设置
+	 */
+	static async updateSettings(
+		updates: Partial<WalletSettings>
+	): Promise<WalletSettings> {
+		const settings = { ...(await this.getSettings()), ...updates }
+		settings.autoLockMinutes = this.clampAutoLockMinutes(
+			settings.autoLockMinutes
+		)
+		await chrome.storage.local.set({ [this.SETTINGS_KEY]: settings })
+		return settings
+	}
+
+	/**
+	 * 监听设置变化（包括其他扩展页面的修改）
+	 */
+	static onChanged(callback: (settings: WalletSettings) => void): void {
+		chrome.storage.onChanged.addListener((changes, areaName) => {
+			if (areaName === 'local' && changes[this.SETTINGS_KEY]) {
+				this.getSettings().then(callback)
+			}
+		})
+	}
+
+	/**
+	 * 自动锁定时间限制在 1 分钟到安全策略上限之间
+	 */
+	private static clampAutoLockMinutes(minutes: number): number {
+		const value = Number(minutes) || this.MAX_AUTO_LOCK_MINUTES
+		return Math.min(
+			Math.max(Math.round(value), 1),
+			this.MAX_AUTO_LOCK_MINUTES
+		)
+	}
+}
@@ -1,3 +1,5 @@
+import type { EncryptedWalletData, LegacyWalletData } from '~types/wallet'
+
 // Chrome 扩展存储服务
 export class StorageService {
 	private static readonly WALLET_INITIALIZED_KEY = 'walletInitialized'
@@ -114,11 +116,10 @@ export class StorageService {
 	 * 清除所有钱包数据
 	 */
 	/**
-	 * 保存加密的钱包数据
+	 * 保存加密的钱包保险库
 	 */
 	static async saveEncryptedWallet(
-		encryptedMnemonic: any,
-		encryptedPrivateKey: any
+		walletData: EncryptedWalletData
 	): Promise<void> {
 		try {
 			if (!this.isStorageAvailable()) {
@@ -127,26 +128,7 @@ export class StorageService {
 				)
 			}
 
-			console.log('开始保存加密钱包数据...')
-			console.log('Chrome 存储 API 状态:', {
-				chrome: typeof chrome,
-				storage: typeof chrome?.storage,
-				local: typeof chrome?.storage?.local
-			})
-
-			const walletData = {
-				version: '1.0',
-				encryptedMnemonic,
-				encryptedPrivateKey,
-				createdAt: Date.now()
-			}
-
-			console.log('准备保存的数据结构:', {
-				version: walletData.version,
-				hasEncryptedMnemonic: !!walletData.encryptedMnemonic,
-				hasEncryptedPrivateKey: !!walletData.encryptedPrivateKey,
-				createdAt: walletData.createdAt
-			})
+			console.log('保存加密钱包数据，版本:', walletData.version)
 
 			await chrome.storage.local.set({
 				[this.WALLET_DATA_KEY]: walletData,
@@ -156,13 +138,6 @@ export class StorageService {
 			console.log('加密钱包数据保存成功')
 		} catch (error) {
 			console.error('保存加密钱包数据失败:', error)
-			console.error('错误详情:', {
-				message: error.message,
-				stack: error.stack,
-				chrome: typeof chrome,
-				storage: typeof chrome?.storage,
-				local: typeof chrome?.storage?.local
-			})
 			throw new Error(`钱包数据保存失败: ${error.message}`)
 		}
 	}
@@ -170,7 +145,9 @@ export class StorageService {
 	/**
 	 * 获取加密的钱包数据
 	 */
-	static async getEncryptedWallet(): Promise<any> {
+	static async getEncryptedWallet(): Promise<
+		EncryptedWalletData | LegacyWalletData | null
+	> {
 		try {
 			if (!this.isStorageAvailable()) {
 				throw new Error(
@@ -0,0 +1,286 @@
+import { ethers } from 'ethers'
+
+import { DEFAULT_TOKENS, ERC20_ABI } from '~config/tokens'
+import type {
+	BlockchainErrorType,
+	TokenBalance,
+	TokenInfo
+} from '~types/blockchain'
+import { BlockchainError } from '~types/blockchain'
+
+import { blockchainService } from './BlockchainService'
+import { NetworkService } from './NetworkService'
+import { StorageService } from './StorageService'
+
+// 按 `${chainId}:${账户}` 保存用户添加或隐藏的代币
+const TOKENS_STORAGE_KEY = 'walletTokens'
+
+/**
+ * ERC-20 代币服务
+ * 按网络和账户跟踪代币，通过 Multicall3 批量读取余额和代币信息
+ */
+export class TokenService {
+	private readonly erc20 = new ethers.Interface(ERC20_ABI)
+
+	/**
+	 * 获取账户在指定网络上跟踪的代币（默认代币 + 用户添加的代币）
+	 */
+	async getTokens(
+		account: string,
+		chainId: number = this.getChainId(),
+		includeHidden: boolean = false
+	): Promise<TokenInfo[]> {
+		const stored = await this.getStoredTokens()
+
+		// 按合约地址合并，保存的记录覆盖默认代币（如隐藏状态）
+		const tokens = new Map<string, TokenInfo>()
+		for (const token of [
+			...(DEFAULT_TOKENS[chainId] || []),
+			...(stored[this.getStorageKey(chainId, account)] || [])
+		]) {
+			const address = token.address.toLowerCase()
+			tokens.set(address, { ...tokens.get(address), ...token })
+		}
+
+		return Array.from(tokens.values()).filter(
+			(token) => includeHidden || !token.hidden
+		)
+	}
+
+	/**
+	 * 为账户跟踪一个代币，已隐藏的同一代币会重新显示
+	 */
+	async addToken(account: string, token: TokenInfo): Promise<void> {
+		if (!ethers.isAddress(token.address)) {
+			throw new BlockchainError(
+				'INVALID_ADDRESS' as BlockchainErrorType,
+				'无效的代币合约地址'
+			)
+		}
+
+		await this.updateStoredToken(account, token.chainId, token.address, {
+			...token,
+			hidden: false
+		})
+	}
+
+	/**
+	 * 隐藏或重新显示代币
+	 */
+	async setTokenHidden(
+		account: string,
+		chainId: number,
+		address: string,
+		hidden: boolean
+	): Promise<void> {
+		const token = (await this.getTokens(account, chainId, true)).find(
+			(item) => item.address.toLowerCase() === address.toLowerCase()
+		)
+		if (!token) {
+			throw new BlockchainError(
+				'INVALID_ADDRESS' as BlockchainErrorType,
+				'未找到该代币'
+			)
+		}
+
+		await this.updateStoredToken(account, chainId, address, {
+			...token,
+			hidden
+		})
+	}
+
+	/**
+	 * 监听代币列表变化（包括后台通过 wallet_watchAsset 添加的代币）
+	 */
+	onChanged(callback: () => void): () => void {
+		const listener = (
+			changes: Record<string, chrome.storage.StorageChange>,
+			areaName: string
+		) => {
+			if (areaName === 'local' && changes[TOKENS_STORAGE_KEY]) {
+				callback()
+			}
+		}
+		chrome.storage.onChanged.addListener(listener)
+		return () => chrome.storage.onChanged.removeListener(listener)
+	}
+
+	/**
+	 * 读取代币的 symbol/name/decimals
+	 */
+	async getTokenMetadata(
+		address: string
+	): Promise<Pick<TokenInfo, 'symbol' | 'name' | 'decimals'>> {
+		if (!ethers.isAddress(address)) {
+			throw new BlockchainError(
+				'INVALID_ADDRESS' as BlockchainErrorType,
+				'无效的代币合约地址'
+			)
+		}
+
+		// 先确认地址上部署了合约，普通账户地址的调用也会返回成功
+		if (!(await NetworkService.isContract(address))) {
+			throw new BlockchainError(
+				'CONTRACT_ERROR' as BlockchainErrorType,
+				'该地址不是合约地址'
+			)
+		}
+
+		const [symbol, name, decimals] = await blockchainService.multicall(
+			['symbol', 'name', 'decimals'].map((method) => ({
+				target: address,
+				callData: this.erc20.encodeFunctionData(method)
+			}))
+		)
+		if (
+			!symbol.success ||
+			!decimals.success ||
+			decimals.returnData === '0x'
+		) {
+			throw new BlockchainError(
+				'CONTRACT_ERROR' as BlockchainErrorType,
+				'该地址不是有效的 ERC-20 代币合约'
+			)
+		}
+
+		return {
+			symbol: this.decodeString(symbol.returnData),
+			name: name.success ? this.decodeString(name.returnData) : undefined,
+			decimals: Number(
+				this.erc20.decodeFunctionResult(
+					'decimals',
+					decimals.returnData
+				)[0]
+			)
+		}
+	}
+
+	/**
+	 * 批量查询账户在当前网络上跟踪的代币余额
+	 */
+	async getTokenBalances(account: string): Promise<TokenBalance[]> {
+		if (!ethers.isAddress(account)) {
+			throw new BlockchainError(
+				'INVALID_ADDRESS' as BlockchainErrorType,
+				'无效的地址格式'
+			)
+		}
+
+		const tokens = await this.getTokens(account)
+		if (tokens.length === 0) {
+			return []
+		}
+
+		// 每个代币依次查询 balanceOf、decimals、symbol，合并为一次 RPC 请求
+		const results = await blockchainService.multicall(
+			tokens.flatMap((token) => [
+				{
+					target: token.address,
+					callData: this.erc20.encodeFunctionData('balanceOf', [
+						account
+					])
+				},
+				{
+					target: token.address,
+					callData: this.erc20.encodeFunctionData('decimals')
+				},
+				{
+					target: token.address,
+					callData: this.erc20.encodeFunctionData('symbol')
+				}
+			])
+		)
+
+		const balances: TokenBalance[] = []
+		tokens.forEach((token, index) => {
+			const [balanceResult, decimalsResult, symbolResult] = results.slice(
+				index * 3,
+				index * 3 + 3
+			)
+
+			// 合约不存在或不是 ERC-20 时跳过
+			if (!balanceResult.success || balanceResult.returnData === '0x') {
+				console.warn(
+					`读取代币余额失败: ${token.symbol} ${token.address}`
+				)
+				return
+			}
+
+			// 链上信息优先，读取失败时使用保存的信息
+			const decimals = decimalsResult.success
+				? Number(
+						this.erc20.decodeFunctionResult(
+							'decimals',
+							decimalsResult.returnData
+						)[0]
+					)
+				: token.decimals
+			const symbol = symbolResult.success
+				? this.decodeString(symbolResult.returnData) || token.symbol
+				: token.symbol
+			const balance: bigint = this.erc20.decodeFunctionResult(
+				'balanceOf',
+				balanceResult.returnData
+			)[0]
+
+			balances.push({
+				...token,
+				symbol,
+				decimals,
+				balance: balance.toString(),
+				formattedBalance: ethers.formatUnits(balance, decimals)
+			})
+		})
+		return balances
+	}
+
+	// 兼容 symbol/name 返回 bytes32 的旧代币（如 MKR）
+	private decodeString(returnData: string): string {
+		try {
+			return this.erc20.decodeFunctionResult('symbol', returnData)[0]
+		} catch {
+			try {
+				return ethers.decodeBytes32String(returnData)
+			} catch {
+				return ''
+			}
+		}
+	}
+
+	private async updateStoredToken(
+		account: string,
+		chainId: number,
+		address: string,
+		token: TokenInfo
+	): Promise<void> {
+		const stored = await this.getStoredTokens()
+		const key = this.getStorageKey(chainId, account)
+		const tokens = (stored[key] || []).filter(
+			(item) => item.address.toLowerCase() !== address.toLowerCase()
+		)
+		stored[key] = [
+			...tokens,
+			{ ...token, address: ethers.getAddress(address) }
+		]
+		await StorageService.setItem(TOKENS_STORAGE_KEY, stored)
+	}
+
+	private async getStoredTokens(): Promise<Record<string, TokenInfo[]>> {
+		return (
+			(await StorageService.getItem<Record<string, TokenInfo[]>>(
+				TOKENS_STORAGE_KEY
+			)) || {}
+		)
+	}
+
+	private getStorageKey(chainId: number, account: string): string {
+		return `${chainId}:${account.toLowerCase()}`
+	}
+
+	private getChainId(): number {
+		return blockchainService.getCurrentNetwork().chainId
+	}
+}
+
+// 导出单例实例
+export const tokenService = new TokenService()
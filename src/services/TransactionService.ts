@@ -1,8 +1,10 @@
 import { ethers } from 'ethers'
 
+import { ERC20_ABI } from '../config/tokens'
 import type {
 	BlockchainErrorType,
 	GasPriceData,
+	TokenInfo,
 	TransactionRecord,
 	TransactionRequest
 } from '../types/blockchain'
@@ -15,6 +17,8 @@ import { StorageService } from './StorageService'
  * 处理交易构建、签名、发送和状态跟踪
  */
 export class TransactionService {
+	private readonly erc20 = new ethers.Interface(ERC20_ABI)
+
 	/**
 	 * 构建 ETH 转账交易
 	 */
@@ -71,6 +75,64 @@ export class TransactionService {
 		}
 	}
 
+	/**
+	 * 构建 ERC-20 代币转账交易（调用代币合约的 transfer）
+	 */
+	async buildERC20Transaction(
+		token: TokenInfo,
+		to: string,
+		amount: string,
+		gasPrice?: string,
+		gasLimit?: string
+	): Promise<TransactionRequest> {
+		try {
+			if (!ethers.isAddress(to)) {
+				throw new BlockchainError(
+					'INVALID_ADDRESS' as BlockchainErrorType,
+					'无效的接收地址'
+				)
+			}
+
+			const amountUnits = ethers.parseUnits(amount, token.decimals)
+			if (amountUnits <= 0n) {
+				throw new BlockchainError(
+					'INVALID_AMOUNT' as BlockchainErrorType,
+					'转账金额必须大于 0'
+				)
+			}
+
+			const transaction: TransactionRequest = {
+				to: token.address,
+				value: '0',
+				data: this.erc20.encodeFunctionData('transfer', [
+					to,
+					amountUnits
+				])
+			}
+
+			if (gasLimit) {
+				transaction.gasLimit = gasLimit
+			}
+
+			if (gasPrice) {
+				transaction.gasPrice = ethers
+					.parseUnits(gasPrice, 'gwei')
+					.toString()
+			}
+
+			return transaction
+		} catch (error) {
+			if (error instanceof BlockchainError) {
+				throw error
+			}
+			throw new BlockchainError(
+				'TRANSACTION_FAILED' as BlockchainErrorType,
+				'构建代币转账交易失败',
+				error
+			)
+		}
+	}
+
 	/**
 	 * 估算交易 Gas 费用
 	 */
@@ -106,7 +168,8 @@ export class TransactionService {
 	 */
 	async signAndSendTransaction(
 		transaction: TransactionRequest,
-		privateKey: string
+		privateKey: string,
+		token?: TokenInfo
 	): Promise<string> {
 		try {
 			// 验证私钥格式
@@ -146,7 +209,7 @@ export class TransactionService {
 			})
 
 			// 保存交易记录
-			await this.saveTransactionRecord({
+			const record: TransactionRecord = {
 				hash: txResponse.hash,
 				from: txResponse.from!,
 				to: txResponse.to!,
@@ -156,7 +219,22 @@ export class TransactionService {
 				status: 'pending',
 				timestamp: Date.now(),
 				type: 'eth'
-			})
+			}
+
+			// 代币转账记录实际接收方和转账数量
+			const transfer = token && this.decodeERC20Transfer(txResponse.data)
+			if (transfer) {
+				record.type = 'erc20'
+				record.to = transfer.to
+				record.token = {
+					address: token.address,
+					symbol: token.symbol,
+					decimals: token.decimals,
+					amount: ethers.formatUnits(transfer.amount, token.decimals)
+				}
+			}
+
+			await this.saveTransactionRecord(record)
 
 			return txResponse.hash
 		} catch (error) {
@@ -184,6 +262,21 @@ export class TransactionService {
 		}
 	}
 
+	// 解析 ERC-20 transfer 调用数据，不是 transfer 时返回 null
+	private decodeERC20Transfer(
+		data: string
+	): { to: string; amount: bigint } | null {
+		try {
+			const parsed = this.erc20.parseTransaction({ data })
+			if (parsed?.name !== 'transfer') {
+				return null
+			}
+			return { to: parsed.args[0], amount: parsed.args[1] }
+		} catch {
+			return null
+		}
+	}
+
 	/**
 	 * 跟踪交易状态
 	 */
@@ -0,0 +1,119 @@
+import {
+	WalletError,
+	WalletErrorType,
+	type UnlockAttempt,
+	type UnlockAttemptState
+} from '~types/wallet'
+
+import { StorageService } from './StorageService'
+
+/**
+ * 解锁尝试限制服务
+ * 失败次数保存在本地存储中，超过免费次数后按指数退避锁定
+ */
+export class UnlockAttemptService {
+	private static readonly STORAGE_KEY = 'unlockAttempts'
+	// 不触发锁定的失败次数
+	private static readonly FREE_ATTEMPTS = 5
+	// 首次锁定 30 秒，之后每次失败翻倍，最长 1 小时
+	private static readonly BASE_LOCKOUT_MS = 30 * 1000
+	private static readonly MAX_LOCKOUT_MS = 60 * 60 * 1000
+	private static readonly HISTORY_LIMIT = 20
+
+	/**
+	 * 获取当前的解锁限制状态
+	 */
+	static async getState(): Promise<UnlockAttemptState> {
+		const state = await StorageService.getItem<UnlockAttemptState>(
+			this.STORAGE_KEY
+		)
+		return state || { failedCount: 0, lockedUntil: null, history: [] }
+	}
+
+	/**
+	 * 锁定期间拒绝解锁尝试
+	 */
+	static async assertCanAttempt(): Promise<void> {
+		const { lockedUntil } = await this.getState()
+		if (lockedUntil && Date.now() < lockedUntil) {
+			const seconds = Math.ceil((lockedUntil - Date.now()) / 1000)
+			throw new WalletError(
+				WalletErrorType.UNLOCK_RATE_LIMITED,
+				`密码错误次数过多，请等待 ${seconds} 秒后再试`
+			)
+		}
+	}
+
+	/**
+	 * 记录一次失败，超过免费次数后设置锁定时间
+	 */
+	static async recordFailure(): Promise<UnlockAttemptState> {
+		const state = await this.getState()
+		const failedCount = state.failedCount + 1
+
+		let lockedUntil: number | null = null
+		if (failedCount >= this.FREE_ATTEMPTS) {
+			const lockout = Math.min(
+				this.BASE_LOCKOUT_MS * 2 ** (failedCount - this.FREE_ATTEMPTS),
+				this.MAX_LOCKOUT_MS
+			)
+			lockedUntil = Date.now() + lockout
+		}
+
+		return this.saveState({
+			failedCount,
+			lockedUntil,
+			history: this.appendHistory(state.history, false)
+		})
+	}
+
+	/**
+	 * 记录成功解锁，清除失败次数和锁定时间
+	 */
+	static async recordSuccess(): Promise<UnlockAttemptState> {
+		const state = await this.getState()
+		return this.saveState({
+			failedCount: 0,
+			lockedUntil: null,
+			history: this.appendHistory(state.history, true)
+		})
+	}
+
+	/**
+	 * 最近一次成功解锁之前连续失败的尝试
+	 */
+	static getFailuresBeforeLastUnlock(
+		state: UnlockAttemptState
+	): UnlockAttempt[] {
+		const [latest, ...previous] = state.history
+		if (!latest?.success) {
+			return []
+		}
+		const nextSuccess = previous.findIndex((attempt) => attempt.success)
+		return nextSuccess === -1 ? previous : previous.slice(0, nextSuccess)
+	}
+
+	/**
+	 * 距离触发锁定还剩的失败次数
+	 */
+	static getRemainingFreeAttempts(state: UnlockAttemptState): number {
+		return Math.max(this.FREE_ATTEMPTS - state.failedCount, 0)
+	}
+
+	private static appendHistory(
+		history: UnlockAttempt[],
+		success: boolean
+	): UnlockAttempt[] {
+		return [{ timestamp: Date.now(), success }, ...history].slice(
+			0,
+			this.HISTORY_LIMIT
+		)
+	}
+
+	private static async saveState(
+		state: UnlockAttemptState
+	): Promise<UnlockAttemptState> {
+		await StorageService.setItem(this.STORAGE_KEY, state)
+		return state
+	}
+}
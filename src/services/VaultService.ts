@@ -0,0 +1,315 @@
+import {
+	WalletError,
+	WalletErrorType,
+	type EncryptedData,
+	type EncryptedWalletData,
+	type HdKeyring,
+	type Keyring,
+	type LegacyWalletData
+} from '~types/wallet'
+
+import { CryptoService } from './CryptoService'
+import { SettingsService } from './SettingsService'
+import { StorageService } from './StorageService'
+
+// 密钥环中的单个账户
+export interface KeyringAccount {
+	address: string
+	privateKey: string
+	keyringType: Keyring['type']
+	// HD 账户为派生索引，导入账户为在密钥环中的位置
+	index: number
+}
+
+/**
+ * 保险库服务
+ * 将多个密钥环（HD 助记词、导入的私钥）序列化后使用同一个密码加密保存
+ */
+export class VaultService {
+	// 当前保险库格式版本
+	static readonly VAULT_VERSION = 2
+	// 旧版本中以明文保存助记词的存储键
+	private static readonly LEGACY_MNEMONIC_KEY = 'walletMnemonic'
+	private static readonly ACCOUNTS_STORAGE_KEY = 'walletAccounts'
+
+	/**
+	 * 使用密码创建新的保险库（覆盖已有数据）
+	 */
+	static async createVault(
+		password: string,
+		keyrings: Keyring[]
+	): Promise<void> {
+		const now = Date.now()
+		await StorageService.saveEncryptedWallet({
+			version: this.VAULT_VERSION,
+			vault: await this.encryptKeyrings(password, keyrings),
+			createdAt: now,
+			updatedAt: now
+		})
+	}
+
+	/**
+	 * 重新加密并保存密钥环
+	 */
+	static async saveKeyrings(
+		password: string,
+		keyrings: Keyring[]
+	): Promise<void> {
+		const walletData = await this.getVaultData()
+		await StorageService.saveEncryptedWallet({
+			version: this.VAULT_VERSION,
+			vault: await this.encryptKeyrings(password, keyrings),
+			createdAt: walletData?.createdAt || Date.now(),
+			updatedAt: Date.now()
+		})
+	}
+
+	/**
+	 * 使用密码解锁保险库，旧版数据和旧加密算法会在解锁时自动迁移
+	 */
+	static async unlockVault(password: string): Promise<Keyring[]> {
+		const walletData = await StorageService.getEncryptedWallet()
+		if (!walletData) {
+			throw new WalletError(
+				WalletErrorType.STORAGE_ERROR,
+				'未找到钱包数据'
+			)
+		}
+
+		if (this.isLegacyWallet(walletData)) {
+			return this.migrateLegacyWallet(password, walletData)
+		}
+
+		let decrypted: string
+		try {
+			decrypted = await CryptoService.decrypt(walletData.vault, password)
+		} catch (error) {
+			throw new WalletError(
+				WalletErrorType.WRONG_PASSWORD,
+				'密码错误',
+				error
+			)
+		}
+		const keyrings = JSON.parse(decrypted) as Keyring[]
+
+		// 旧的 AES-CBC 密文或 KDF 设置变化时，使用当前算法重新加密
+		const { vaultKdf } = await SettingsService.getSettings()
+		if (CryptoService.needsReencryption(walletData.vault, vaultKdf)) {
+			await this.saveKeyrings(password, keyrings)
+			console.log('保险库已使用', vaultKdf, '重新加密')
+		}
+		return keyrings
+	}
+
+	/**
+	 * 修改密码：验证旧密码后使用新密码重新加密全部密钥环，失败时恢复原数据
+	 */
+	static async changePassword(
+		oldPassword: string,
+		newPassword: string
+	): Promise<void> {
+		const strength = CryptoService.validatePasswordStrength(newPassword)
+		if (!strength.isValid) {
+			throw new Error(strength.message)
+		}
+		if (oldPassword === newPassword) {
+			throw new Error('新密码不能与当前密码相同')
+		}
+
+		// 验证旧密码（旧版数据会先完成迁移）
+		const keyrings = await this.unlockVault(oldPassword)
+		const backup = await this.getVaultData()
+
+		try {
+			await this.saveKeyrings(newPassword, keyrings)
+
+			// 用新密码解密一次，确认写入的数据完整可用
+			const saved = await this.getVaultData()
+			const decrypted = saved
+				? await CryptoService.decrypt(saved.vault, newPassword)
+				: ''
+			if (decrypted !== JSON.stringify(keyrings)) {
+				throw new Error('重新加密后校验失败')
+			}
+		} catch (error) {
+			if (backup) {
+				await StorageService.saveEncryptedWallet(backup)
+			}
+			throw new WalletError(
+				WalletErrorType.STORAGE_ERROR,
+				'修改密码失败，已恢复原密码',
+				error
+			)
+		}
+	}
+
+	/**
+	 * 获取 HD 密钥环的助记词
+	 */
+	static getMnemonic(keyrings: Keyring[]): string {
+		return this.getHdKeyring(keyrings)?.mnemonic || ''
+	}
+
+	/**
+	 * 获取 HD 密钥环（每个保险库最多一个）
+	 */
+	static getHdKeyring(keyrings: Keyring[]): HdKeyring | undefined {
+		return keyrings.find(
+			(keyring): keyring is HdKeyring => keyring.type === 'hd'
+		)
+	}
+
+	/**
+	 * 列出密钥环中的账户
+	 * @param hdAccountCount HD 密钥环派生的账户数量
+	 */
+	static getAccounts(
+		keyrings: Keyring[],
+		hdAccountCount: number = 1
+	): KeyringAccount[] {
+		return keyrings.flatMap((keyring): KeyringAccount[] => {
+			if (keyring.type === 'hd') {
+				return Array.from({ length: hdAccountCount }, (_, index) => {
+					const privateKey =
+						CryptoService.derivePrivateKeyFromMnemonic(
+							keyring.mnemonic,
+							keyring.passphrase,
+							index
+						)
+					return {
+						address: CryptoService.privateKeyToAddress(privateKey),
+						privateKey,
+						keyringType: keyring.type,
+						index
+					}
+				})
+			}
+
+			return keyring.privateKeys.map((privateKey, index) => ({
+				address: CryptoService.privateKeyToAddress(privateKey),
+				privateKey,
+				keyringType: keyring.type,
+				index
+			}))
+		})
+	}
+
+	/**
+	 * 查找地址对应的私钥
+	 */
+	static findPrivateKey(
+		keyrings: Keyring[],
+		address: string,
+		hdAccountCount: number = 1
+	): string | null {
+		const account = this.getAccounts(keyrings, hdAccountCount).find(
+			(item) => item.address.toLowerCase() === address.toLowerCase()
+		)
+		return account?.privateKey || null
+	}
+
+	/**
+	 * 删除旧版本遗留的明文助记词
+	 */
+	static async removePlaintextSecrets(): Promise<void> {
+		await StorageService.removeItem(this.LEGACY_MNEMONIC_KEY)
+	}
+
+	/**
+	 * 使用设置中的 KDF 加密密钥环
+	 */
+	private static async encryptKeyrings(
+		password: string,
+		keyrings: Keyring[]
+	): Promise<EncryptedData> {
+		const { vaultKdf } = await SettingsService.getSettings()
+		return CryptoService.encrypt(
+			JSON.stringify(keyrings),
+			password,
+			vaultKdf
+		)
+	}
+
+	private static async getVaultData(): Promise<EncryptedWalletData | null> {
+		const walletData = await StorageService.getEncryptedWallet()
+		return walletData && !this.isLegacyWallet(walletData)
+			? walletData
+			: null
+	}
+
+	private static isLegacyWallet(
+		walletData: EncryptedWalletData | LegacyWalletData
+	): walletData is LegacyWalletData {
+		return walletData.version === '1.0'
+	}
+
+	/**
+	 * 将 1.0 版本的单助记词/单私钥数据迁移为保险库
+	 */
+	private static async migrateLegacyWallet(
+		password: string,
+		legacy: LegacyWalletData
+	): Promise<Keyring[]> {
+		console.log('检测到旧版钱包数据，开始迁移...')
+
+		let mnemonic: string
+		let privateKey: string
+		try {
+			mnemonic = legacy.encryptedMnemonic
+				? await this.decryptLegacyMnemonic(password, legacy)
+				: ''
+			privateKey = await CryptoService.decrypt(
+				legacy.encryptedPrivateKey,
+				password
+			)
+		} catch (error) {
+			throw new WalletError(
+				WalletErrorType.WRONG_PASSWORD,
+				'密码错误',
+				error
+			)
+		}
+
+		const keyrings: Keyring[] = []
+		if (mnemonic && CryptoService.validateMnemonic(mnemonic)) {
+			keyrings.push({ type: 'hd', mnemonic })
+		}
+
+		// 私钥不属于助记词已派生的账户时，作为导入账户保存
+		const storedAccounts =
+			(await StorageService.getItem<{ address: string }[]>(
+				this.ACCOUNTS_STORAGE_KEY
+			)) || []
+		const derivedAddresses = this.getAccounts(
+			keyrings,
+			Math.max(storedAccounts.length, 1)
+		).map((account) => account.address.toLowerCase())
+		const address = CryptoService.privateKeyToAddress(privateKey)
+		if (!derivedAddresses.includes(address.toLowerCase())) {
+			keyrings.push({ type: 'simple', privateKeys: [privateKey] })
+		}
+
+		await this.createVault(password, keyrings)
+		await this.removePlaintextSecrets()
+
+		console.log('钱包数据已迁移到保险库版本', this.VAULT_VERSION)
+		return keyrings
+	}
+
+	/**
+	 * 私钥导入的旧版钱包保存的是空字符串，解密结果为空会被视为失败
+	 */
+	private static async decryptLegacyMnemonic(
+		password: string,
+		legacy: LegacyWalletData
+	): Promise<string> {
+		try {
+			return await CryptoService.decrypt(
+				legacy.encryptedMnemonic,
+				password
+			)
+		} catch {
+			return ''
+		}
+	}
+}
@@ -0,0 +1,515 @@
+import { ethers } from 'ethers'
+import React, { useEffect, useState } from 'react'
+
+import { Button } from '~components/Button'
+import { Input } from '~components/Input'
+import { Layout } from '~components/Layout'
+import { TransactionConfirmDialog } from '~components/TransactionConfirmDialog'
+import { gasEstimationService } from '~services/GasEstimationService'
+import type {
+	NetworkConfig,
+	TokenInfo,
+	TransactionRequest
+} from '~types/blockchain'
+import type { ApprovalRequest } from '~types/provider'
+import type { WalletSessionState } from '~types/wallet'
+import { sendBackgroundMessage } from '~utils/messaging'
+import { initTheme } from '~utils/theme'
+import { toTransactionRequest } from '~utils/utils'
+
+import '~style.css'
+
+interface ApprovalProps {
+	approval: ApprovalRequest
+	onResolve: (approved: boolean, result?: unknown) => void
+}
+
+// 钱包锁定时先解锁后台会话，签名由后台完成
+function PasswordPrompt({
+	onUnlocked,
+	onReject
+}: {
+	onUnlocked: () => void
+	onReject: () => void
+}) {
+	const [password, setPassword] = useState('')
+	const [error, setError] = useState('')
+	const [isLoading, setIsLoading] = useState(false)
+
+	const handleUnlock = async () => {
+		setIsLoading(true)
+		setError('')
+		try {
+			await sendBackgroundMessage<WalletSessionState>('UNLOCK_WALLET', {
+				password
+			})
+			onUnlocked()
+		} catch (err) {
+			setError((err as Error).message)
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	return (
+		<div className="space-y-3">
+			<Input
+				type="password"
+				label="输入密码以继续"
+				value={password}
+				onChange={setPassword}
+				error={error}
+				showPasswordToggle
+			/>
+			<div className="flex space-x-2">
+				<Button
+					variant="secondary"
+					className="flex-1"
+					onClick={onReject}>
+					拒绝
+				</Button>
+				<Button
+					className="flex-1"
+					onClick={handleUnlock}
+					loading={isLoading}
+					disabled={!password || isLoading}>
+					解锁
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+function ConnectApproval({ approval, onResolve }: ApprovalProps) {
+	const { accounts, selectedAccounts } = approval.payload as {
+		accounts: string[]
+		selectedAccounts: string[]
+	}
+	const [selected, setSelected] = useState<string[]>(selectedAccounts)
+
+	const toggleAccount = (address: string) => {
+		setSelected((prev) =>
+			prev.includes(address)
+				? prev.filter((item) => item !== address)
+				: [...prev, address]
+		)
+	}
+
+	return (
+		<div className="space-y-4">
+			<p className="text-sm text-gray-700">选择允许该网站查看的账户：</p>
+			<div className="bg-white rounded-lg p-3 space-y-1">
+				{accounts.map((address) => (
+					<label
+						key={address}
+						className="flex items-center space-x-2 font-mono text-xs text-gray-800 break-all">
+						<input
+							type="checkbox"
+							checked={selected.includes(address)}
+							onChange={() => toggleAccount(address)}
+						/>
+						<span>{address}</span>
+					</label>
+				))}
+			</div>
+			<div className="flex space-x-2">
+				<Button
+					variant="secondary"
+					className="flex-1"
+					onClick={() => onResolve(false)}>
+					拒绝
+				</Button>
+				<Button
+					className="flex-1"
+					disabled={selected.length === 0}
+					onClick={() => onResolve(true, selected)}>
+					连接
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+function SignApproval({ approval, onResolve }: ApprovalProps) {
+	const { message, from } = approval.payload
+
+	// 十六进制消息尽量以 UTF-8 文本展示
+	const displayMessage = (() => {
+		if (!ethers.isHexString(message)) {
+			return message
+		}
+		try {
+			return ethers.toUtf8String(message)
+		} catch {
+			return message
+		}
+	})()
+
+	return (
+		<div className="space-y-4">
+			<div className="text-xs text-gray-500">签名账户：{from}</div>
+			<div className="bg-white rounded-lg p-3 text-sm text-gray-800 whitespace-pre-wrap break-all max-h-60 overflow-auto">
+				{displayMessage}
+			</div>
+			<div className="flex space-x-2">
+				<Button
+					variant="secondary"
+					className="flex-1"
+					onClick={() => onResolve(false)}>
+					拒绝
+				</Button>
+				<Button className="flex-1" onClick={() => onResolve(true)}>
+					签名
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+function WatchAssetApproval({ approval, onResolve }: ApprovalProps) {
+	const { token, account } = approval.payload as {
+		token: TokenInfo
+		account: string
+	}
+
+	return (
+		<div className="space-y-4">
+			<p className="text-sm text-gray-700">该网站建议添加以下代币：</p>
+			<div className="bg-white rounded-lg p-3 space-y-2">
+				<div className="flex items-center space-x-3">
+					{token.image ? (
+						<img
+							src={token.image}
+							alt={token.symbol}
+							className="w-8 h-8 rounded-full"
+						/>
+					) : (
+						<div className="w-8 h-8 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center text-xs font-bold">
+							{token.symbol.slice(0, 3)}
+						</div>
+					)}
+					<div>
+						<div className="text-sm font-medium text-gray-900">
+							{token.symbol}
+						</div>
+						{token.name && (
+							<div className="text-xs text-gray-500">
+								{token.name}
+							</div>
+						)}
+					</div>
+				</div>
+				<div className="text-xs text-gray-700 space-y-1">
+					<div className="break-all">合约地址：{token.address}</div>
+					<div>精度：{token.decimals}</div>
+					<div className="break-all">添加到账户：{account}</div>
+				</div>
+			</div>
+			<div className="text-xs text-amber-600">
+				⚠️ 任何人都可以创建代币，请确认该合约来自可信的项目
+			</div>
+			<div className="flex space-x-2">
+				<Button
+					variant="secondary"
+					className="flex-1"
+					onClick={() => onResolve(false)}>
+					拒绝
+				</Button>
+				<Button className="flex-1" onClick={() => onResolve(true)}>
+					添加代币
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+function SwitchChainApproval({ approval, onResolve }: ApprovalProps) {
+	const { from, to } = approval.payload as {
+		from: NetworkConfig
+		to: NetworkConfig
+	}
+
+	return (
+		<div className="space-y-4">
+			<p className="text-sm text-gray-700">该网站请求切换网络：</p>
+			<div className="bg-white rounded-lg p-3 flex items-center justify-between text-sm">
+				<div>
+					<div className="font-medium text-gray-900">{from.name}</div>
+					<div className="text-xs text-gray-500">
+						Chain ID: {from.chainId}
+					</div>
+				</div>
+				<span className="text-gray-400">→</span>
+				<div className="text-right">
+					<div className="font-medium text-gray-900">{to.name}</div>
+					<div className="text-xs text-gray-500">
+						Chain ID: {to.chainId}
+					</div>
+				</div>
+			</div>
+			<div className="text-xs text-amber-600">
+				⚠️ 切换后钱包中的交易和签名都将在新网络上进行
+			</div>
+			<div className="flex space-x-2">
+				<Button
+					variant="secondary"
+					className="flex-1"
+					onClick={() => onResolve(false)}>
+					拒绝
+				</Button>
+				<Button className="flex-1" onClick={() => onResolve(true)}>
+					切换网络
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+function TransactionApproval({ approval, onResolve }: ApprovalProps) {
+	const { from } = approval.payload
+	const transaction = toTransactionRequest(approval.payload.transaction)
+	const [gasLimit, setGasLimit] = useState('')
+	const [gasPrice, setGasPrice] = useState('')
+	const [error, setError] = useState('')
+
+	useEffect(() => {
+		gasEstimationService
+			.getTransactionGasInfo({
+				...transaction,
+				from
+			} as TransactionRequest)
+			.then((gasInfo) => {
+				setGasLimit(transaction.gasLimit || gasInfo.gasLimit)
+				setGasPrice(gasInfo.gasPrices.standard)
+			})
+			.catch((err) => setError((err as Error).message))
+	}, [approval.id])
+
+	// 确认后由后台使用选定的 Gas 签名并发送
+	const handleConfirm = () => {
+		onResolve(true, {
+			gasLimit,
+			gasPrice: ethers.parseUnits(gasPrice, 'gwei').toString()
+		})
+	}
+
+	const amount = ethers.formatEther(transaction.value || '0')
+	const totalCost =
+		gasLimit && gasPrice
+			? ethers.formatEther(
+					BigInt(transaction.value || '0') +
+						BigInt(gasLimit) * ethers.parseUnits(gasPrice, 'gwei')
+				)
+			: '0'
+
+	return (
+		<div className="space-y-4">
+			<div className="bg-white rounded-lg p-3 space-y-1 text-xs text-gray-700">
+				<div className="break-all">发送方：{from}</div>
+				<div className="break-all">接收方：{transaction.to}</div>
+				<div>金额：{amount} ETH</div>
+			</div>
+			{error && (
+				<>
+					<div className="text-xs text-red-600">{error}</div>
+					<Button
+						variant="secondary"
+						fullWidth
+						onClick={() => onResolve(false)}>
+						拒绝
+					</Button>
+				</>
+			)}
+			<TransactionConfirmDialog
+				isOpen={!!gasLimit && !!gasPrice}
+				transaction={transaction}
+				fromAddress={from}
+				amount={amount}
+				gasLimit={gasLimit || '0'}
+				gasPrice={gasPrice || '0'}
+				totalCost={totalCost}
+				onConfirm={handleConfirm}
+				onCancel={() => onResolve(false)}
+				isLoading={false}
+				title="确认网站发起的交易"
+			/>
+		</div>
+	)
+}
+
+function ApprovalPage() {
+	const [approvals, setApprovals] = useState<ApprovalRequest[]>([])
+	// 当前查看的请求序号
+	const [currentIndex, setCurrentIndex] = useState(0)
+	const [isUnlocked, setIsUnlocked] = useState(false)
+
+	useEffect(() => {
+		const cleanupTheme = initTheme()
+
+		sendBackgroundMessage<WalletSessionState>('GET_WALLET_STATE')
+			.then((state) => setIsUnlocked(state.isUnlocked))
+			.catch((error) => console.error('获取钱包状态失败:', error))
+
+		chrome.runtime
+			.sendMessage({ type: 'GET_PENDING_APPROVALS' })
+			.then((response) => {
+				if (response?.success) {
+					setApprovals(response.data)
+				}
+			})
+
+		// 后台队列变化时刷新
+		const handleMessage = (message: any) => {
+			if (message?.type === 'APPROVALS_UPDATED') {
+				setApprovals(message.data)
+			}
+			if (message?.type === 'WALLET_LOCKED') {
+				setIsUnlocked(false)
+			}
+		}
+		chrome.runtime.onMessage.addListener(handleMessage)
+
+		return () => {
+			chrome.runtime.onMessage.removeListener(handleMessage)
+			if (cleanupTheme) {
+				cleanupTheme()
+			}
+		}
+	}, [])
+
+	// 队列缩短时保持序号有效
+	useEffect(() => {
+		if (currentIndex > 0 && currentIndex >= approvals.length) {
+			setCurrentIndex(Math.max(approvals.length - 1, 0))
+		}
+	}, [approvals.length, currentIndex])
+
+	const current = approvals[currentIndex] || approvals[0]
+
+	const handleResolve = (approved: boolean, result?: unknown) => {
+		chrome.runtime.sendMessage({
+			type: 'RESOLVE_APPROVAL',
+			data: { id: current.id, approved, result }
+		})
+	}
+
+	const handleRejectAll = () => {
+		chrome.runtime.sendMessage({ type: 'REJECT_ALL_APPROVALS' })
+	}
+
+	const renderApproval = () => {
+		// 钱包锁定时需要先解锁
+		if (!isUnlocked) {
+			return (
+				<PasswordPrompt
+					key={current.id}
+					onUnlocked={() => setIsUnlocked(true)}
+					onReject={() => handleResolve(false)}
+				/>
+			)
+		}
+
+		switch (current.type) {
+			case 'connect':
+				return (
+					<ConnectApproval
+						key={current.id}
+						approval={current}
+						onResolve={handleResolve}
+					/>
+				)
+			case 'transaction':
+				return (
+					<TransactionApproval
+						key={current.id}
+						approval={current}
+						onResolve={handleResolve}
+					/>
+				)
+			case 'sign':
+				return (
+					<SignApproval
+						key={current.id}
+						approval={current}
+						onResolve={handleResolve}
+					/>
+				)
+			case 'watchAsset':
+				return (
+					<WatchAssetApproval
+						key={current.id}
+						approval={current}
+						onResolve={handleResolve}
+					/>
+				)
+			case 'switchChain':
+				return (
+					<SwitchChainApproval
+						key={current.id}
+						approval={current}
+						onResolve={handleResolve}
+					/>
+				)
+		}
+	}
+
+	return (
+		<Layout title="确认请求">
+			<div className="p-4 space-y-4">
+				{current ? (
+					<>
+						<div className="flex items-center justify-between">
+							<span className="text-sm font-medium text-gray-900">
+								{new URL(current.origin).host}
+							</span>
+							{approvals.length > 1 && (
+								<div className="flex items-center space-x-2 text-xs text-gray-500">
+									<button
+										disabled={currentIndex === 0}
+										onClick={() =>
+											setCurrentIndex(currentIndex - 1)
+										}
+										className="disabled:opacity-30">
+										◀
+									</button>
+									<span>
+										{currentIndex + 1} / {approvals.length}
+									</span>
+									<button
+										disabled={
+											currentIndex >= approvals.length - 1
+										}
+										onClick={() =>
+											setCurrentIndex(currentIndex + 1)
+										}
+										className="disabled:opacity-30">
+										▶
+									</button>
+								</div>
+							)}
+						</div>
+						<div className="text-xs text-gray-400">
+							{new Date(current.expiresAt).toLocaleTimeString()}{' '}
+							前未处理将自动拒绝
+						</div>
+						{renderApproval()}
+						{approvals.length > 1 && (
+							<Button
+								variant="ghost"
+								fullWidth
+								onClick={handleRejectAll}>
+								全部拒绝（{approvals.length}）
+							</Button>
+						)}
+					</>
+				) : (
+					<div className="text-sm text-gray-500 text-center py-8">
+						没有待处理的请求
+					</div>
+				)}
+			</div>
+		</Layout>
+	)
+}
+
+export default ApprovalPage
@@ -0,0 +1,28 @@
+// 后台创建的离屏文档（CLIPBOARD），popup 关闭后仍可清空剪贴板
+// 离屏文档无法获得焦点，navigator.clipboard 不可用，改用 execCommand
+const clearClipboard = () => {
+	const onCopy = (event: ClipboardEvent) => {
+		event.clipboardData?.setData('text/plain', '')
+		event.preventDefault()
+	}
+	document.addEventListener('copy', onCopy)
+	try {
+		return document.execCommand('copy')
+	} finally {
+		document.removeEventListener('copy', onCopy)
+	}
+}
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+	if (message?.type !== 'OFFSCREEN_CLEAR_CLIPBOARD') {
+		return false
+	}
+	sendResponse({ success: clearClipboard() })
+	return false
+})
+
+function ClipboardPage() {
+	return null
+}
+
+export default ClipboardPage
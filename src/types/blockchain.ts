@@ -13,6 +13,8 @@ export interface NetworkConfig {
 }
 
 export interface TransactionRequest {
+	// 仅用于 Gas 估算（如 ERC-20 转账需要按发送方余额估算）
+	from?: string
 	to: string
 	value?: string
 	data?: string
@@ -33,6 +35,78 @@ export interface TransactionRecord {
 	timestamp: number
 	type: 'eth' | 'erc20' | 'erc721' | 'erc1155'
 	blockNumber?: number
+	// ERC-20 转账的代币信息，此时 to 为实际接收方而不是代币合约
+	token?: TokenTransferInfo
+}
+
+export interface TokenTransferInfo {
+	address: string
+	symbol: string
+	decimals: number
+	// 按代币精度格式化后的转账数量
+	amount: string
+}
+
+// ERC-20 代币信息
+export interface TokenInfo {
+	chainId: number
+	address: string
+	symbol: string
+	name?: string
+	decimals: number
+	// 代币图标（wallet_watchAsset 提供）
+	image?: string
+	// 用户隐藏的代币不显示在代币列表中
+	hidden?: boolean
+}
+
+export interface TokenBalance extends TokenInfo {
+	// 最小单位的原始余额
+	balance: string
+	formattedBalance: string
+}
+
+// 代币授权类型：ERC-20 额度授权或 NFT 的全部授权（setApprovalForAll）
+export type TokenApprovalType = 'erc20' | 'erc721' | 'erc1155'
+
+export interface TokenApproval {
+	type: TokenApprovalType
+	// 代币或 NFT 合约地址
+	token: string
+	spender: string
+	// ERC-20 为代币符号，NFT 为合约名称
+	tokenName?: string
+	decimals?: number
+	// ERC-20 当前剩余额度（最小单位）
+	allowance?: string
+	isUnlimited: boolean
+	// 最近一次授权事件所在区块
+	blockNumber: number
+}
+
+export interface TokenApprovalScanResult {
+	approvals: TokenApproval[]
+	// 已扫描的区块范围
+	fromBlock: number
+	toBlock: number
+}
+
+// Multicall3 批量调用中的单个只读调用
+export interface MulticallCall {
+	target: string
+	callData: string
+}
+
+export interface MulticallResult {
+	success: boolean
+	returnData: string
+}
+
+// 增量扫描日志的进度和扫描中发现的候选记录
+export interface LogScanState<T> {
+	fromBlock: number
+	toBlock: number
+	candidates: T[]
 }
 
 export interface GasPriceData {
@@ -70,6 +144,13 @@ export class BlockchainError extends Error {
 	}
 }
 
+export type NftTokenType = 'ERC721' | 'ERC1155'
+
+export interface NftAttribute {
+	trait_type: string
+	value: string | number
+}
+
 export interface UserNFT {
 	tokenId: string
 	contract: string
@@ -78,5 +159,25 @@ export interface UserNFT {
 	image: string
 	collection: string
 	chainId: number
-	tokenType: string
+	tokenType: NftTokenType
+	// ERC-1155 持有数量
+	balance?: string
+	attributes?: NftAttribute[]
+}
+
+// NFT 查询结果，通过日志扫描时包含已扫描的区块范围
+export interface NftScanResult {
+	nfts: UserNFT[]
+	source: string
+	fromBlock?: number
+	toBlock?: number
+}
+
+/**
+ * 可选的 NFT 索引服务（如 Chainbase），配置后优先于链上日志扫描
+ */
+export interface NftIndexer {
+	name: string
+	supportsChain(chainId: number): boolean
+	getNfts(owner: string, chainId: number): Promise<UserNFT[]>
 }
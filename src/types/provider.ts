@@ -0,0 +1,123 @@
+// EIP-1193 Provider 相关类型定义
+
+export interface RequestArguments {
+	method: string
+	params?: unknown[] | Record<string, unknown>
+}
+
+export interface ProviderConnectInfo {
+	chainId: string
+}
+
+// EIP-1193 / JSON-RPC 标准错误码
+export enum ProviderErrorCode {
+	USER_REJECTED = 4001,
+	UNAUTHORIZED = 4100,
+	UNSUPPORTED_METHOD = 4200,
+	DISCONNECTED = 4900,
+	CHAIN_DISCONNECTED = 4901,
+	UNRECOGNIZED_CHAIN = 4902,
+	INVALID_PARAMS = -32602,
+	INTERNAL_ERROR = -32603
+}
+
+export interface SerializedProviderRpcError {
+	code: number
+	message: string
+	data?: unknown
+}
+
+// 后台返回给内容脚本的 RPC 响应
+export interface RpcResponse {
+	success: boolean
+	result?: unknown
+	error?: SerializedProviderRpcError
+}
+
+export class ProviderRpcError extends Error {
+	constructor(
+		public code: number,
+		message: string,
+		public data?: unknown
+	) {
+		super(message)
+		this.name = 'ProviderRpcError'
+	}
+
+	/**
+	 * 转换为可通过消息通道传递的普通对象
+	 */
+	serialize(): SerializedProviderRpcError {
+		return {
+			code: this.code,
+			message: this.message,
+			...(this.data !== undefined ? { data: this.data } : {})
+		}
+	}
+
+	/**
+	 * 从任意错误或序列化对象还原 ProviderRpcError
+	 */
+	static from(error: any): ProviderRpcError {
+		if (error instanceof ProviderRpcError) {
+			return error
+		}
+		if (error && typeof error.code === 'number') {
+			return new ProviderRpcError(
+				error.code,
+				error.message || '未知错误',
+				error.data
+			)
+		}
+		return new ProviderRpcError(
+			ProviderErrorCode.INTERNAL_ERROR,
+			error?.message || String(error || '未知错误')
+		)
+	}
+}
+
+// EIP-2255 权限相关类型定义
+
+export interface PermissionCaveat {
+	type: string
+	value: unknown
+}
+
+// wallet_getPermissions 返回给 Dapp 的权限对象
+export interface Web3WalletPermission {
+	invoker: string
+	parentCapability: string
+	caveats: PermissionCaveat[]
+	date: number
+}
+
+// 钱包内部保存的单个来源的授权记录
+export interface DappPermission {
+	origin: string
+	accounts: string[]
+	grantedAt: number
+	caveats: PermissionCaveat[]
+	favicon?: string
+	// 最近一次发起请求的时间
+	lastActiveAt?: number
+}
+
+// 需要用户在确认窗口中处理的请求类型
+export type ApprovalType =
+	| 'connect'
+	| 'transaction'
+	| 'sign'
+	| 'watchAsset'
+	| 'switchChain'
+
+// 发送给确认窗口的待处理请求（不含回调，可以通过消息传递）
+export interface ApprovalRequest {
+	id: string
+	type: ApprovalType
+	origin: string
+	payload: any
+	// 发起请求的标签页，页面关闭时请求会被拒绝
+	tabId?: number
+	createdAt: number
+	expiresAt: number
+}
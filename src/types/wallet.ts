@@ -1,23 +1,125 @@
 // 钱包相关类型定义
+// 账户类型：密钥环中的账户可以签名，观察账户只读
+export type WalletAccountType = 'keyring' | 'watch'
+
 export interface WalletAccount {
+	type: WalletAccountType
 	address: string
 	name: string
+	// 密钥环账户为派生索引，观察账户为添加顺序
 	index: number
 	createdAt: Date
+	// 所属密钥环类型，旧数据缺省为 HD 账户（观察账户没有密钥环）
+	keyringType?: 'hd' | 'simple'
+	// 是否在账户列表中隐藏
+	hidden?: boolean
+	// 通过 ENS 名称添加的观察账户
+	ensName?: string
 }
 
+// 可选的密钥派生算法
+export type KdfAlgorithm = 'scrypt' | 'argon2id'
+
+// 密钥派生参数，随密文一起保存（旧版 AES-CBC 数据固定使用 PBKDF2，不保存参数）
+export type KdfParams =
+	| { algorithm: 'scrypt'; N: number; r: number; p: number }
+	| {
+			algorithm: 'argon2id'
+			// 迭代次数
+			t: number
+			// 内存开销（KiB）
+			m: number
+			p: number
+	  }
+
 export interface EncryptedData {
-	data: string
+	encryptedData: string
 	salt: string
 	iv: string
+	// 加密算法，旧数据缺省为 crypto-js 的 AES-256-CBC
+	cipher?: 'aes-256-gcm' | 'aes-256-cbc'
+	kdf?: KdfParams
 }
 
+// 旧版（1.0）钱包数据：单个助记词和单个私钥分别加密
+export interface LegacyWalletData {
+	version: '1.0'
+	encryptedMnemonic: EncryptedData
+	encryptedPrivateKey: EncryptedData
+	createdAt: number
+}
+
+// HD 密钥环：由助记词派生账户
+export interface HdKeyring {
+	type: 'hd'
+	mnemonic: string
+	// BIP-39 密码短语（可选），与助记词一起决定派生的账户
+	passphrase?: string
+}
+
+// 导入私钥密钥环
+export interface SimpleKeyring {
+	type: 'simple'
+	privateKeys: string[]
+}
+
+export type Keyring = HdKeyring | SimpleKeyring
+
+// 保险库：所有密钥环序列化后使用同一个密码整体加密
 export interface EncryptedWalletData {
-	version: string
-	encryptedMnemonic?: EncryptedData
-	encryptedAccounts: EncryptedData[]
-	salt: string
-	iv: string
+	version: number
+	vault: EncryptedData
+	createdAt: number
+	updatedAt: number
+}
+
+// 完整钱包备份文件，全部存储数据使用钱包密码整体加密
+export interface WalletBackupFile {
+	format: 'plasmo-wallet-backup'
+	version: number
+	createdAt: number
+	// 加密数据的 SHA-256 校验和，解密前即可发现文件损坏
+	checksum: string
+	data: EncryptedData
+}
+
+// 后台钱包会话状态，只包含公开信息，密钥不会离开后台
+export interface WalletSessionState {
+	isUnlocked: boolean
+	// 当前选中的账户
+	selectedAddress: string | null
+	// 解锁后可用的全部账户地址
+	accounts: string[]
+}
+
+// 钱包用户设置
+export interface WalletSettings {
+	// 是否注入 window.ethereum（兼容不支持 EIP-6963 的旧 Dapp）
+	injectLegacyProvider: boolean
+	// 空闲多少分钟后自动锁定钱包
+	autoLockMinutes: number
+	// 连续解锁失败多少次后清除钱包数据，0 表示不启用
+	wipeAfterFailedAttempts: number
+	// 保险库加密使用的密钥派生算法
+	vaultKdf: KdfAlgorithm
+	// 助记词恢复时扫描账户的间隔上限：连续多少个未使用的地址后停止
+	accountDiscoveryGapLimit: number
+}
+
+// 单次解锁尝试记录
+export interface UnlockAttempt {
+	timestamp: number
+	success: boolean
+}
+
+// 持久化的解锁限制状态，popup 关闭后仍然有效
+export interface UnlockAttemptState {
+	// 上次成功解锁以来连续失败的次数
+	failedCount: number
+	// 锁定截止时间
+	lockedUntil: number | null
+	// 最近的解锁尝试，按时间倒序
+	history: UnlockAttempt[]
 }
 
 export interface NetworkConfig {
@@ -38,7 +140,10 @@ export enum WalletErrorType {
 	WRONG_PASSWORD = 'WRONG_PASSWORD',
 	STORAGE_ERROR = 'STORAGE_ERROR',
 	NETWORK_ERROR = 'NETWORK_ERROR',
-	ACCOUNT_EXISTS = 'ACCOUNT_EXISTS'
+	ACCOUNT_EXISTS = 'ACCOUNT_EXISTS',
+	WALLET_LOCKED = 'WALLET_LOCKED',
+	UNLOCK_RATE_LIMITED = 'UNLOCK_RATE_LIMITED',
+	INVALID_BACKUP = 'INVALID_BACKUP'
 }
 
 export class WalletError extends Error {
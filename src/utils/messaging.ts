@@ -0,0 +1,13 @@
+/**
+ * 向后台发送一次性消息，后台返回 { success, data, error }，失败时抛出错误
+ */
+export const sendBackgroundMessage = async <T = unknown>(
+	type: string,
+	data?: unknown
+): Promise<T> => {
+	const response = await chrome.runtime.sendMessage({ type, data })
+	if (!response?.success) {
+		throw new Error(response?.error || '后台处理失败')
+	}
+	return response.data as T
+}
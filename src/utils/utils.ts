@@ -1,17 +1,54 @@
-import type { UserNFT } from '../types/blockchain'
+import { ARWEAVE_GATEWAY, IPFS_GATEWAY } from '../config/tokens'
+import type { TransactionRequest } from '../types/blockchain'
 
-export const nftToStandardFormat = (nft: any): UserNFT => {
+/**
+ * 将链 ID 统一转换为 EIP-1193 要求的十六进制字符串
+ */
+export const toHexChainId = (chainId: number | string | bigint): string => {
+	if (typeof chainId === 'string' && chainId.startsWith('0x')) {
+		return chainId.toLowerCase()
+	}
+	return `0x${BigInt(chainId).toString(16)}`
+}
+
+/**
+ * 将 Dapp 传入的十六进制交易参数转换为钱包内部的交易格式
+ */
+export const toTransactionRequest = (transaction: any): TransactionRequest => {
+	const gasLimit = transaction.gas || transaction.gasLimit
 	return {
-		tokenId: nft.tokenId,
-		contract: nft.contract.address,
-		name: nft.title || nft.metadata?.name || `NFT #${nft.tokenId}`,
-		description: nft.description || nft.metadata?.description || '',
-		image:
-			nft.media[0]?.gateway ||
-			nft.metadata?.image ||
-			'https://via.placeholder.com/150',
-		collection: nft.contract.name,
-		chainId: parseInt(nft.contractMetadata?.chainId || '1'),
-		tokenType: nft.tokenType
+		to: transaction.to,
+		value: BigInt(transaction.value || 0).toString(),
+		...(transaction.data ? { data: transaction.data } : {}),
+		...(gasLimit ? { gasLimit: BigInt(gasLimit).toString() } : {})
+	}
+}
+
+/**
+ * 在扩展页面中将文本内容下载为文件
+ */
+export const downloadTextFile = (
+	filename: string,
+	content: string,
+	mimeType: string = 'application/json'
+): void => {
+	const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+	const link = document.createElement('a')
+	link.href = url
+	link.download = filename
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
+/**
+ * 将 NFT 元数据中的 ipfs:// 和 ar:// 地址转换为可访问的网关地址
+ */
+export const toGatewayUrl = (uri: string): string => {
+	if (uri.startsWith('ipfs://')) {
+		return IPFS_GATEWAY + uri.slice('ipfs://'.length).replace(/^ipfs\//, '')
+	}
+	if (uri.startsWith('ar://')) {
+		return ARWEAVE_GATEWAY + uri.slice('ar://'.length)
 	}
+	return uri
 }